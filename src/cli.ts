@@ -0,0 +1,259 @@
+#!/usr/bin/env node
+import yargs, { Argv } from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import chalk from 'chalk';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { config, releaseSecrets, setLoggingEnabled, SERVER_VERSION } from './config.js';
+import { getStorageBackend } from './storage.js';
+import { sessionOutbox } from './outbox.js';
+import { sessionSearchIndex } from './session-search.js';
+import { buildThoughtGraph } from './session-graph.js';
+import { verifyStoredSession } from './session-integrity.js';
+import { labelsOf, parseLabelFilter } from './session-labels.js';
+import { deleteSession } from './session-retention.js';
+import { EXPORT_FORMATS, ExportFormat, renderSession } from './session-export.js';
+import { StorageBackend } from './storage-backend.js';
+
+// Options every command accepts
+interface GlobalOptions {
+  json: boolean;
+  verbose: boolean;
+}
+
+/**
+ * Write one result to stdout, as JSON when --json is given
+ */
+function print(argv: GlobalOptions, data: unknown, text: string): void {
+  process.stdout.write(`${argv.json ? JSON.stringify(data, null, 2) : text}\n`);
+}
+
+/**
+ * Parse an optional ISO 8601 date option into milliseconds since the epoch
+ */
+function parseDateOption(value: string | undefined, name: string): number | undefined {
+  if (!value) return undefined;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid --${name}: expected an ISO 8601 date, got ${JSON.stringify(value)}`);
+  }
+  return time;
+}
+
+/**
+ * The configured storage backend, initialized
+ */
+async function openStorage(): Promise<StorageBackend> {
+  const storage = getStorageBackend();
+  if (!storage.isInitialized()) {
+    await storage.initialize();
+  }
+  return storage;
+}
+
+/**
+ * Run a command, then let writes settle, release the secure key buffers and exit.
+ * Errors are printed in red and exit with status 1.
+ */
+function run<T extends GlobalOptions>(command: (argv: T) => Promise<number | void>) {
+  return async (argv: T): Promise<void> => {
+    let exitCode = 0;
+    try {
+      exitCode = (await command(argv)) ?? 0;
+      await getStorageBackend().waitForPendingWrites();
+    } catch (error: any) {
+      const message = error.code === 'EEXIST'
+        ? `${error.path} already exists; pass --overwrite to replace it`
+        : error.message;
+      process.stderr.write(`${chalk.red(`Error: ${message}`)}\n`);
+      exitCode = 1;
+    }
+
+    releaseSecrets();
+    process.exit(exitCode);
+  };
+}
+
+// Label filters shared by list and search
+const withLabelOptions = <T>(args: Argv<T>) => args
+  .option('tag', { type: 'string', array: true, description: 'Only sessions with this tag; repeat for several' })
+  .option('project', { type: 'string', description: 'Only sessions of this project' })
+  .option('author', { type: 'string', description: 'Only sessions by this author' });
+
+const labelFilter = (argv: { tag?: string[], project?: string, author?: string }) =>
+  parseLabelFilter({ tags: argv.tag, project: argv.project, author: argv.author });
+
+await yargs(hideBin(process.argv))
+  .scriptName('sequential-thinking')
+  .usage('$0 <command> [options]\n\nInspect sequential thinking sessions stored by the MCP server.')
+  .option('json', { type: 'boolean', default: false, description: 'Print results as JSON' })
+  .option('verbose', { type: 'boolean', default: false, description: 'Show progress logs on stderr' })
+  .middleware(argv => { setLoggingEnabled(argv.verbose); })
+  .command('list', 'List stored sessions', args => withLabelOptions(args)
+    .option('limit', { type: 'number', default: 20, description: 'Sessions per page' })
+    .option('cursor', { type: 'string', description: 'Cursor printed by the previous page' })
+    .option('newest', { type: 'boolean', default: false, description: 'Newest sessions first' })
+    .option('after', { type: 'string', description: 'Only sessions created at or after this ISO 8601 date' })
+    .option('before', { type: 'string', description: 'Only sessions created at or before this ISO 8601 date' })
+    .option('prefix', { type: 'string', description: 'Only keys starting with this; defaults to the log prefix' }),
+  run(async argv => {
+    const storage = await openStorage();
+    const page = await storage.listSessionObjects({
+      limit: argv.limit,
+      cursor: argv.cursor,
+      order: argv.newest ? 'desc' : 'asc',
+      createdAfter: parseDateOption(argv.after, 'after'),
+      createdBefore: parseDateOption(argv.before, 'before'),
+      keyPrefix: argv.prefix,
+      labels: labelFilter(argv),
+    });
+
+    const lines = page.objects.map(obj => {
+      const metadata = obj.metadata || {};
+      const labels = labelsOf(metadata);
+      return [
+        chalk.bold(obj.key),
+        `  ${metadata.timestamp ? new Date(metadata.timestamp).toISOString() : 'unknown date'}`
+          + ` · ${metadata.thoughtCount ?? '?'} thoughts`
+          + (metadata.status ? ` · ${metadata.status}` : '')
+          + (metadata.encryption ? ' · encrypted' : ''),
+        ...(metadata.query ? [`  ${metadata.query}`] : []),
+        ...(Object.keys(labels).length > 0
+          ? [chalk.dim(`  ${[...(labels.tags ?? []).map(tag => `#${tag}`), labels.project && `project:${labels.project}`, labels.author && `author:${labels.author}`].filter(Boolean).join(' ')}`)]
+          : []),
+      ].join('\n');
+    });
+
+    print(argv, page, [
+      page.objects.length > 0 ? lines.join('\n\n') : 'No stored sessions match.',
+      ...(page.nextCursor ? ['', chalk.dim(`More sessions: --cursor ${page.nextCursor}`)] : []),
+    ].join('\n'));
+  }))
+  .command('show <key>', 'Print a stored session', args => args
+    .positional('key', { type: 'string', demandOption: true, description: 'Key of the stored session' })
+    .option('view', { choices: ['thoughts', 'graph', 'final'] as const, default: 'thoughts' as const, description: 'Every thought, the thought graph as Mermaid, or only the path to the final thought' }),
+  run(async argv => {
+    const storage = await openStorage();
+    const session = await storage.getSessionObject(argv.key);
+    if (!session) {
+      throw new Error(`Session file "${argv.key}" not found`);
+    }
+
+    const renderable = { title: argv.key, sessionId: session.header.sessionId, query: session.header.query, createdAt: session.createdAt, thoughts: session.thoughts };
+    if (argv.view === 'thoughts') {
+      print(argv, session, renderSession(renderable, 'markdown'));
+    } else if (argv.view === 'graph') {
+      print(argv, buildThoughtGraph(session.thoughts), renderSession(renderable, 'mermaid'));
+    } else {
+      const graph = buildThoughtGraph(session.thoughts);
+      const finalPath = graph.finalPath.map(id => graph.nodes[id - 1]);
+      print(
+        argv,
+        { key: argv.key, header: session.header, finalPath, omittedThoughts: graph.nodes.length - finalPath.length },
+        renderSession({ ...renderable, thoughts: graph.finalPath.map(id => session.thoughts[id - 1]) }, 'markdown'),
+      );
+    }
+  }))
+  .command('search <query>', 'Search the text of stored sessions', args => withLabelOptions(args)
+    .positional('query', { type: 'string', demandOption: true, description: 'Words or phrase to look for' })
+    .option('limit', { type: 'number', default: 10, description: 'Most results to print' })
+    .option('refresh', { type: 'boolean', default: true, description: 'Index sessions stored since the last search first; --no-refresh skips it' }),
+  run(async argv => {
+    if (argv.refresh) {
+      const index = await sessionSearchIndex.refresh(await openStorage());
+      if (index.error) {
+        process.stderr.write(`${chalk.yellow(`Warning: searching the index as it was; ${index.error}`)}
+`);
+      }
+    }
+    const results = await sessionSearchIndex.search(argv.query, argv.limit, labelFilter(argv));
+
+    const text = results.map(result => [
+      `${chalk.bold(result.key)} ${chalk.dim(`(score ${result.score.toFixed(2)})`)}`,
+      ...(result.query ? [`  ${result.query}`] : []),
+      ...result.matches.map(match => `  ${chalk.cyan(match.field === 'thought' ? `#${match.thoughtNumber}` : match.field)} ${match.snippet}`),
+    ].join('\n'));
+    print(argv, results, results.length > 0 ? text.join('\n\n') : 'No matching sessions.');
+  }))
+  .command('export <key>', 'Render a stored session as Markdown, Mermaid or HTML', args => args
+    .positional('key', { type: 'string', demandOption: true, description: 'Key of the stored session' })
+    .option('format', { choices: EXPORT_FORMATS, default: 'markdown' as ExportFormat, description: 'Output format' })
+    .option('output', { alias: 'o', type: 'string', description: 'Write to this file instead of stdout' })
+    .option('overwrite', { type: 'boolean', default: false, description: 'Replace the output file if it exists' }),
+  run(async argv => {
+    const storage = await openStorage();
+    const session = await storage.getSessionObject(argv.key);
+    if (!session) {
+      throw new Error(`Session file "${argv.key}" not found`);
+    }
+
+    const rendering = renderSession({
+      title: argv.key,
+      sessionId: session.header.sessionId,
+      query: session.header.query,
+      createdAt: session.createdAt,
+      thoughts: session.thoughts,
+    }, argv.format);
+
+    if (!argv.output) {
+      process.stdout.write(rendering.endsWith('\n') ? rendering : `${rendering}\n`);
+      return;
+    }
+
+    const path = resolve(argv.output);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, rendering, { encoding: 'utf8', flag: argv.overwrite ? 'w' : 'wx' });
+    const bytes = Buffer.byteLength(rendering, 'utf8');
+    print(argv, { path, format: argv.format, bytes, thoughtCount: session.thoughts.length }, `Wrote ${argv.format} export to ${path} (${bytes} bytes)`);
+  }))
+  .command('delete <key>', 'Permanently delete a stored session', args => args
+    .positional('key', { type: 'string', demandOption: true, description: 'Key of the stored session' })
+    .option('yes', { alias: 'y', type: 'boolean', default: false, description: 'Confirm the deletion' }),
+  run(async argv => {
+    if (!argv.yes) {
+      throw new Error(`Deleting "${argv.key}" cannot be undone; pass --yes to confirm`);
+    }
+
+    await deleteSession(await openStorage(), argv.key);
+    print(argv, { key: argv.key, deleted: true }, `Deleted ${argv.key}`);
+  }))
+  .command('verify <key>', 'Check the hash chain and signature of a stored session; exits with 1 when it fails', args => args
+    .positional('key', { type: 'string', demandOption: true, description: 'Key of the stored session' })
+    .option('expected-signer', { type: 'string', description: 'Wallet address the session must be signed by; defaults to the configured wallet' }),
+  run(async argv => {
+    const verification = await verifyStoredSession(await openStorage(), argv.key, argv.expectedSigner);
+
+    print(argv, verification, [
+      verification.valid ? chalk.green(`✔ ${argv.key} is intact`) : chalk.red(`✘ ${argv.key} failed verification`),
+      ...(verification.rootHash ? [`  Root hash: ${verification.rootHash}`] : []),
+      `  Signed: ${verification.signed ? `yes, by ${verification.signerAddress ?? 'an unknown wallet'}` : 'no'}`,
+      ...(verification.expectedSigner ? [`  Expected signer: ${verification.expectedSigner}`] : []),
+      ...verification.problems.map(problem => chalk.yellow(`  - ${problem}`)),
+    ].join('\n'));
+    return verification.valid ? 0 : 1;
+  }))
+  .command('status', 'Print the storage backend status and the outbox', args => args,
+  run(async argv => {
+    const storage = getStorageBackend();
+    let recallStatus: Record<string, unknown>;
+    try {
+      await openStorage();
+      recallStatus = await storage.getStatusInfo();
+    } catch (error: any) {
+      recallStatus = { backend: config.RECALL_STORAGE_BACKEND, initialized: false, error: error.message };
+    }
+    const outbox = await sessionOutbox.inspect();
+
+    print(argv, { version: SERVER_VERSION, recallStatus, outbox }, [
+      `sequential-thinking-recall ${SERVER_VERSION}`,
+      ...Object.entries(recallStatus).map(([name, value]) => `  ${name}: ${typeof value === 'object' ? JSON.stringify(value) : value}`),
+      `Outbox: ${outbox.pending} pending in ${outbox.directory}`,
+      ...outbox.entries.map(entry => `  ${entry.key} · ${entry.attempts} attempt(s)${entry.lastError ? ` · ${chalk.yellow(entry.lastError)}` : ''}`),
+    ].join('\n'));
+  }))
+  .demandCommand(1, 'Pass a command; see --help')
+  .strict()
+  .help()
+  .version(SERVER_VERSION)
+  .parseAsync();
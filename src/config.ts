@@ -1,8 +1,9 @@
 import sodium from 'sodium-native';
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
-import { dirname, resolve } from 'path';
-import { createHash } from 'crypto';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { createHash, timingSafeEqual } from 'crypto';
 import { fileURLToPath } from 'url';
 
 // Define types for configuration variables
@@ -10,6 +11,27 @@ interface Config {
   RECALL_BUCKET_ALIAS: string;
   RECALL_LOG_PREFIX: string;
   RECALL_NETWORK: string;
+  RECALL_DATA_DIR: string;
+  RECALL_OUTBOX_DIR: string;
+  RECALL_OUTBOX_RETRY_BASE_MS: number;
+  RECALL_OUTBOX_RETRY_MAX_MS: number;
+  RECALL_STORAGE_BACKEND: 'recall' | 'filesystem';
+  RECALL_STORAGE_DIR: string;
+  RECALL_CHECKPOINT_EVERY: number;
+  RECALL_CHECKPOINT_IDLE_MS: number;
+  RECALL_SHUTDOWN_TIMEOUT_MS: number;
+  RECALL_SESSION_IDLE_TIMEOUT_MS: number;
+  RECALL_ARCHIVE_PREFIX: string;
+  RECALL_RETENTION_RULES: string;
+  RECALL_SCRUB_ENABLED: boolean;
+  RECALL_SCRUB_RULES: string;
+  RECALL_SCRUB_ALLOWLIST: string;
+  RECALL_SCRUB_DISABLED_RULES: string;
+  RECALL_EXPORT_DIR: string;
+  RECALL_TRANSPORT: 'stdio' | 'http';
+  RECALL_HTTP_HOST: string;
+  RECALL_HTTP_PORT: number;
+  RECALL_HTTP_ALLOWED_HOSTS: string[];
 }
 
 // Define logger interface
@@ -39,11 +61,18 @@ const redactSensitive = (input: any): any => {
   return input;
 };
 
+// Turned off by the CLI unless --verbose is given, so progress logs do not bury its output
+let loggingEnabled = true;
+
+export function setLoggingEnabled(enabled: boolean): void {
+  loggingEnabled = enabled;
+}
+
 // Custom logger implementation
 export const logger: Logger = {
-  error: (...args: any[]) => process.stderr.write(`${chalk.red('[ERROR]')} ${args.map(redactSensitive).join(' ')}\n`),
-  warn: (...args: any[]) => process.stderr.write(`${chalk.yellow('[WARN]')} ${args.map(redactSensitive).join(' ')}\n`),
-  info: (...args: any[]) => process.stderr.write(`${chalk.blue('[INFO]')} ${args.map(redactSensitive).join(' ')}\n`),
+  error: (...args: any[]) => loggingEnabled && process.stderr.write(`${chalk.red('[ERROR]')} ${args.map(redactSensitive).join(' ')}\n`),
+  warn: (...args: any[]) => loggingEnabled && process.stderr.write(`${chalk.yellow('[WARN]')} ${args.map(redactSensitive).join(' ')}\n`),
+  info: (...args: any[]) => loggingEnabled && process.stderr.write(`${chalk.blue('[INFO]')} ${args.map(redactSensitive).join(' ')}\n`),
 };
 
 // Secure secret storage
@@ -54,10 +83,97 @@ const __dirname = dirname(__filename);
 const ENV_FILE_PATH: string = resolve(__dirname, '..', '.env');
 const EXPECTED_ENV_HASH: string | null = process.env.ENV_FILE_HASH || null; // Optional integrity hash
 
+// Optional key for encrypting session content, kept in guarded memory for the life of the process
+let encryptionKeyBuffer: sodium.SecureBuffer | null = null;
+let encryptionKeyReleased = false;
+const ENCRYPTION_KEY_BYTES = sodium.crypto_secretbox_KEYBYTES;
+
+/**
+ * Read the .env file once, verifying its integrity hash if one is configured
+ */
+const readEnvFile = (): Record<string, string> => {
+  const envContent: string = readFileSync(ENV_FILE_PATH, 'utf8');
+  // Optional: Verify integrity with a precomputed hash
+  if (EXPECTED_ENV_HASH) {
+    const computedHash: string = createHash('sha256').update(envContent).digest('hex');
+    if (computedHash !== EXPECTED_ENV_HASH) {
+      throw new Error('Integrity check failed: .env file hash does not match expected value.');
+    }
+  }
+
+  return envContent.split('\n').reduce((acc, line) => {
+    const [key, value] = line.split('=');
+    if (key && value) acc[key.trim()] = value.trim();
+    return acc;
+  }, {} as Record<string, string>);
+};
+
+/**
+ * Copy a hex encryption key into a locked buffer that is inaccessible until used
+ */
+const loadEncryptionKey = (hexKey: string, source: string): void => {
+  const normalized = hexKey.trim().replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]+$/.test(normalized) || normalized.length !== ENCRYPTION_KEY_BYTES * 2) {
+    throw new Error(`RECALL_ENCRYPTION_KEY must be ${ENCRYPTION_KEY_BYTES * 2} hex characters (${ENCRYPTION_KEY_BYTES} bytes).`);
+  }
+
+  const decoded = Buffer.from(normalized, 'hex');
+  encryptionKeyBuffer = sodium.sodium_malloc(ENCRYPTION_KEY_BYTES) as sodium.SecureBuffer;
+  decoded.copy(encryptionKeyBuffer);
+  sodium.sodium_memzero(decoded);
+  sodium.sodium_mlock(encryptionKeyBuffer); // Lock memory to prevent swapping
+  sodium.sodium_mprotect_noaccess(encryptionKeyBuffer);
+  logger.info(`Using RECALL_ENCRYPTION_KEY from ${source}; session content will be encrypted.`);
+};
+
+// Only a digest of the HTTP bearer token is kept, which is all a comparison needs
+let httpTokenDigest: Buffer | null = null;
+
+const digestToken = (token: string): Buffer => createHash('sha256').update(token, 'utf8').digest();
+
 // Load secrets with priority: external env > .env file
 const loadSecrets = (): void => {
   if (secretLoaded) return;
 
+  let envVars: Record<string, string> | undefined;
+  const envFile = (): Record<string, string> => (envVars ??= readEnvFile());
+
+  // The HTTP bearer token is optional and follows the same precedence as the private key
+  if (!httpTokenDigest) {
+    let httpToken: string | undefined = process.env.RECALL_HTTP_TOKEN;
+    if (httpToken) {
+      process.env.RECALL_HTTP_TOKEN = '[REDACTED]'; // Redact immediately
+    } else {
+      try {
+        httpToken = envFile().RECALL_HTTP_TOKEN;
+      } catch {
+        // A missing .env file is reported below
+      }
+    }
+    if (httpToken) {
+      httpTokenDigest = digestToken(httpToken);
+    }
+  }
+
+  // The encryption key is optional and follows the same precedence as the private key
+  if (!encryptionKeyBuffer) {
+    const externalEncryptionKey: string | undefined = process.env.RECALL_ENCRYPTION_KEY;
+    if (externalEncryptionKey) {
+      loadEncryptionKey(externalEncryptionKey, 'external environment variables');
+      process.env.RECALL_ENCRYPTION_KEY = '[REDACTED]'; // Redact immediately
+    } else {
+      let envEncryptionKey: string | undefined;
+      try {
+        envEncryptionKey = envFile().RECALL_ENCRYPTION_KEY;
+      } catch {
+        // A missing .env file is reported below
+      }
+      if (envEncryptionKey) {
+        loadEncryptionKey(envEncryptionKey, `.env file at: ${ENV_FILE_PATH}`);
+      }
+    }
+  }
+
   // Check external environment first
   const externalKey: string | undefined = process.env.RECALL_PRIVATE_KEY;
   if (externalKey) {
@@ -72,22 +188,7 @@ const loadSecrets = (): void => {
 
   // Fall back to .env file
   try {
-    const envContent: string = readFileSync(ENV_FILE_PATH, 'utf8');
-    // Optional: Verify integrity with a precomputed hash
-    if (EXPECTED_ENV_HASH) {
-      const computedHash: string = createHash('sha256').update(envContent).digest('hex');
-      if (computedHash !== EXPECTED_ENV_HASH) {
-        throw new Error('Integrity check failed: .env file hash does not match expected value.');
-      }
-    }
-
-    const envVars: Record<string, string> = envContent.split('\n').reduce((acc, line) => {
-      const [key, value] = line.split('=');
-      if (key && value) acc[key.trim()] = value.trim();
-      return acc;
-    }, {} as Record<string, string>);
-
-    const envKey: string | undefined = envVars.RECALL_PRIVATE_KEY;
+    const envKey: string | undefined = envFile().RECALL_PRIVATE_KEY;
     if (!envKey) {
       throw new Error('RECALL_PRIVATE_KEY not found in .env file.');
     }
@@ -107,11 +208,48 @@ const loadSecrets = (): void => {
 // Initialize secrets
 loadSecrets();
 
+// Local directory for durable state (outbox, caches)
+const DATA_DIR: string = process.env.RECALL_DATA_DIR || join(homedir(), '.sequential-thinking-recall');
+
+// Reported to MCP clients and recorded in every stored session header
+export const SERVER_VERSION = '0.2.0';
+
 // Export configuration object using Config interface
 export const config: Config = {
   RECALL_BUCKET_ALIAS: process.env.RECALL_BUCKET_ALIAS || 'sequential-thinking-logs',
   RECALL_LOG_PREFIX: process.env.RECALL_LOG_PREFIX || 'sequential-',
   RECALL_NETWORK: process.env.RECALL_NETWORK || 'testnet',
+  RECALL_DATA_DIR: DATA_DIR,
+  RECALL_OUTBOX_DIR: process.env.RECALL_OUTBOX_DIR || join(DATA_DIR, 'outbox'),
+  RECALL_OUTBOX_RETRY_BASE_MS: parseInt(process.env.RECALL_OUTBOX_RETRY_BASE_MS || '5000', 10),
+  RECALL_OUTBOX_RETRY_MAX_MS: parseInt(process.env.RECALL_OUTBOX_RETRY_MAX_MS || '300000', 10),
+  RECALL_STORAGE_BACKEND: process.env.RECALL_STORAGE_BACKEND === 'filesystem' ? 'filesystem' : 'recall',
+  RECALL_STORAGE_DIR: process.env.RECALL_STORAGE_DIR || join(DATA_DIR, 'sessions'),
+  // 0 disables either checkpoint trigger
+  RECALL_CHECKPOINT_EVERY: parseInt(process.env.RECALL_CHECKPOINT_EVERY || '10', 10),
+  RECALL_CHECKPOINT_IDLE_MS: parseInt(process.env.RECALL_CHECKPOINT_IDLE_MS || '120000', 10),
+  // How long shutdown may spend storing open sessions before the process exits anyway
+  RECALL_SHUTDOWN_TIMEOUT_MS: parseInt(process.env.RECALL_SHUTDOWN_TIMEOUT_MS || '10000', 10),
+  // Unfinished sessions idle this long are stored as abandoned; 0 keeps them open indefinitely
+  RECALL_SESSION_IDLE_TIMEOUT_MS: parseInt(process.env.RECALL_SESSION_IDLE_TIMEOUT_MS || '1800000', 10),
+  RECALL_ARCHIVE_PREFIX: process.env.RECALL_ARCHIVE_PREFIX || 'archive/',
+  // JSON list of retention rules, parsed and validated by session-retention.ts
+  RECALL_RETENTION_RULES: process.env.RECALL_RETENTION_RULES || '',
+  // Content scrubbing is on unless explicitly disabled; rules and allowlist are JSON lists
+  // parsed by content-scrubber.ts, disabled rules a comma-separated list of built-in names
+  RECALL_SCRUB_ENABLED: process.env.RECALL_SCRUB_ENABLED !== 'false',
+  RECALL_SCRUB_RULES: process.env.RECALL_SCRUB_RULES || '',
+  RECALL_SCRUB_ALLOWLIST: process.env.RECALL_SCRUB_ALLOWLIST || '',
+  RECALL_SCRUB_DISABLED_RULES: process.env.RECALL_SCRUB_DISABLED_RULES || '',
+  // The exportsession tool only writes files inside this directory
+  RECALL_EXPORT_DIR: process.env.RECALL_EXPORT_DIR || join(DATA_DIR, 'exports'),
+  // stdio serves the one client that spawned the process; http serves several over SSE,
+  // and can also be chosen with --transport
+  RECALL_TRANSPORT: process.env.RECALL_TRANSPORT === 'http' ? 'http' : 'stdio',
+  RECALL_HTTP_HOST: process.env.RECALL_HTTP_HOST || '127.0.0.1',
+  RECALL_HTTP_PORT: parseInt(process.env.RECALL_HTTP_PORT || '3000', 10),
+  // Host names accepted in Host and Origin headers besides localhost and the bind address
+  RECALL_HTTP_ALLOWED_HOSTS: (process.env.RECALL_HTTP_ALLOWED_HOSTS || '').split(',').map(host => host.trim()).filter(Boolean),
 };
 
 // Secure private key access
@@ -128,9 +266,68 @@ export function getPrivateKey(): string {
   return key;
 }
 
+// Whether session content should be encrypted
+export function hasEncryptionKey(): boolean {
+  return encryptionKeyBuffer !== null;
+}
+
+// Whether an encryption key was configured and has since been zeroed by releaseSecrets()
+export function isEncryptionKeyReleased(): boolean {
+  return encryptionKeyReleased;
+}
+
+/**
+ * Run a function with read access to the encryption key; the buffer is made
+ * inaccessible again as soon as it returns. Do not keep a reference to the key.
+ */
+export function withEncryptionKey<T>(fn: (key: Buffer) => T): T {
+  if (!encryptionKeyBuffer) {
+    throw new Error('RECALL_ENCRYPTION_KEY is required but not available.');
+  }
+
+  sodium.sodium_mprotect_readonly(encryptionKeyBuffer);
+  try {
+    return fn(encryptionKeyBuffer);
+  } finally {
+    sodium.sodium_mprotect_noaccess(encryptionKeyBuffer);
+  }
+}
+
+// Whether HTTP clients must present a bearer token
+export function hasHttpToken(): boolean {
+  return httpTokenDigest !== null;
+}
+
+/**
+ * Compare a presented bearer token with RECALL_HTTP_TOKEN in constant time
+ */
+export function checkHttpToken(token: string): boolean {
+  return httpTokenDigest !== null && timingSafeEqual(digestToken(token), httpTokenDigest);
+}
+
+/**
+ * Zero and unlock every secret still held in secure memory. Call only on shutdown:
+ * afterwards there is no private key to sign with, and sessions that were to be encrypted cannot be stored.
+ */
+export function releaseSecrets(): void {
+  if (secretBuffer) {
+    sodium.sodium_memzero(secretBuffer);
+    sodium.sodium_munlock(secretBuffer);
+    secretBuffer = null;
+    secretLoaded = false;
+  }
+  if (encryptionKeyBuffer) {
+    sodium.sodium_mprotect_readwrite(encryptionKeyBuffer);
+    sodium.sodium_memzero(encryptionKeyBuffer);
+    sodium.sodium_munlock(encryptionKeyBuffer);
+    encryptionKeyBuffer = null;
+    encryptionKeyReleased = true;
+  }
+}
+
 // Validate environment
 export function validateEnv(): void {
-  if (!secretLoaded && !secretBuffer) {
+  if (config.RECALL_STORAGE_BACKEND === 'recall' && !secretLoaded && !secretBuffer) {
     throw new Error('Missing required RECALL_PRIVATE_KEY. Provide it via environment variables or .env.');
   }
   const recommendedVars: (keyof Config)[] = ['RECALL_NETWORK', 'RECALL_BUCKET_ALIAS', 'RECALL_LOG_PREFIX'];
@@ -148,5 +345,13 @@ export function logConfigStatus(): void {
   logger.info(`  • Bucket Alias: ${config.RECALL_BUCKET_ALIAS}`);
   logger.info(`  • Log Prefix: ${config.RECALL_LOG_PREFIX}`);
   logger.info(`  • Network: ${config.RECALL_NETWORK}`);
+  logger.info(`  • Outbox: ${config.RECALL_OUTBOX_DIR}`);
+  logger.info(`  • Exports: ${config.RECALL_EXPORT_DIR}`);
+  logger.info(`  • Storage Backend: ${config.RECALL_STORAGE_BACKEND}${config.RECALL_STORAGE_BACKEND === 'filesystem' ? ` (${config.RECALL_STORAGE_DIR})` : ''}`);
+  logger.info(`  • Checkpoints: every ${config.RECALL_CHECKPOINT_EVERY || '-'} thoughts, after ${config.RECALL_CHECKPOINT_IDLE_MS ? `${config.RECALL_CHECKPOINT_IDLE_MS}ms` : '-'} idle`);
+  logger.info(`  • Session Idle Timeout: ${config.RECALL_SESSION_IDLE_TIMEOUT_MS ? `${config.RECALL_SESSION_IDLE_TIMEOUT_MS}ms` : 'disabled'}`);
+  logger.info(`  • Content Scrubbing: ${config.RECALL_SCRUB_ENABLED ? 'enabled' : 'disabled'}`);
+  logger.info(`  • Transport: ${config.RECALL_TRANSPORT}${config.RECALL_TRANSPORT === 'http' ? ` (${config.RECALL_HTTP_HOST}:${config.RECALL_HTTP_PORT}, ${httpTokenDigest ? 'bearer token required' : 'no token'})` : ''}`);
   logger.info(`  • Private Key: ${secretBuffer ? '[PROVIDED]' : '[MISSING]'}`);
+  logger.info(`  • Encryption: ${encryptionKeyBuffer ? 'enabled' : 'disabled'}`);
 }
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { config } from './config.js';
+import { ScrubSummary, SessionRecord, SessionThought } from './session-format.js';
+
+// One detector. When the pattern has a named group "secret", only that group is replaced,
+// so "password=hunter2" keeps its "password=" prefix. Patterns carry the "d" flag so the
+// group's position is known.
+interface ScrubRule {
+  name: string;
+  pattern: RegExp;
+  builtIn: boolean;
+}
+
+// Detectors applied in this order; earlier, more specific rules take their matches first
+const BUILT_IN_RULES: ScrubRule[] = [
+  { name: 'private-key-block', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: 'jwt', pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})\b/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'api-key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'bearer-token', pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{20,}=*)/g },
+  { name: 'secret-assignment', pattern: /\b(?:password|passwd|pwd|secret|token|api[_-]?key|private[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["']?(?<secret>[^\s"',;]{6,})/gi },
+  { name: 'hex-key', pattern: /\b(?:0x)?[0-9a-fA-F]{64}\b/g },
+  { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { name: 'ipv4', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+  { name: 'ipv6', pattern: /\b(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}\b|\b(?:[0-9a-fA-F]{1,4}:){1,6}:(?:[0-9a-fA-F]{1,4}:?){1,6}\b/g },
+].map(rule => ({ ...rule, pattern: new RegExp(rule.pattern.source, `${rule.pattern.flags}d`), builtIn: true }));
+
+export const BUILT_IN_RULE_NAMES = BUILT_IN_RULES.map(rule => rule.name);
+
+const userRuleSchema = z.object({
+  name: z.string().min(1),
+  pattern: z.string().min(1),
+  // Regex flags; "g" and "d" are always added
+  flags: z.string().regex(/^[imsuy]*$/, 'flags may only contain i, m, s, u and y').optional(),
+});
+
+// One replaced match, as reported by the preview
+export interface Redaction {
+  rule: string;
+  field: 'thought' | 'query' | 'result' | 'text';
+  thoughtNumber?: number;
+  // Start of the match, so it can be recognized without repeating it
+  preview: string;
+}
+
+let cachedRules: { rules: ScrubRule[], allowlist: RegExp[] } | null = null;
+
+/**
+ * Parse a JSON setting, naming the variable in the error
+ */
+function parseJSONSetting(name: string, raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`${name} is not valid JSON: ${error.message}`);
+  }
+}
+
+function compile(name: string, pattern: string, flags = ''): RegExp {
+  try {
+    return new RegExp(pattern, `${flags.replace(/[gd]/g, '')}gd`);
+  } catch (error: any) {
+    throw new Error(`Invalid pattern for scrub rule "${name}": ${error.message}`);
+  }
+}
+
+/**
+ * Built-in detectors (minus any disabled ones), then user rules, and the allowlist
+ * @throws When RECALL_SCRUB_RULES or RECALL_SCRUB_ALLOWLIST is malformed
+ */
+function getRules(): { rules: ScrubRule[], allowlist: RegExp[] } {
+  if (cachedRules) return cachedRules;
+
+  const disabled = new Set(config.RECALL_SCRUB_DISABLED_RULES.split(',').map(name => name.trim()).filter(Boolean));
+  const rules = BUILT_IN_RULES.filter(rule => !disabled.has(rule.name));
+
+  if (config.RECALL_SCRUB_RULES.trim()) {
+    const parsed = z.array(userRuleSchema).safeParse(parseJSONSetting('RECALL_SCRUB_RULES', config.RECALL_SCRUB_RULES));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid RECALL_SCRUB_RULES at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+    }
+    rules.push(...parsed.data.map(rule => ({ name: rule.name, pattern: compile(rule.name, rule.pattern, rule.flags), builtIn: false })));
+  }
+
+  let allowlist: RegExp[] = [];
+  if (config.RECALL_SCRUB_ALLOWLIST.trim()) {
+    const parsed = z.array(z.string().min(1)).safeParse(parseJSONSetting('RECALL_SCRUB_ALLOWLIST', config.RECALL_SCRUB_ALLOWLIST));
+    if (!parsed.success) {
+      throw new Error('RECALL_SCRUB_ALLOWLIST must be a JSON list of regex patterns');
+    }
+    allowlist = parsed.data.map((pattern, index) => {
+      const regex = compile(`allowlist ${index + 1}`, pattern);
+      return new RegExp(regex.source, regex.flags.replace(/[gd]/g, ''));
+    });
+  }
+
+  return (cachedRules = { rules, allowlist });
+}
+
+/**
+ * Parse the scrubbing settings now, so a mistake in them stops the server at startup
+ * instead of failing every store and leaving sessions in the outbox
+ * @throws When RECALL_SCRUB_RULES or RECALL_SCRUB_ALLOWLIST is malformed
+ */
+export function checkScrubRules(): void {
+  if (isScrubbingEnabled()) {
+    getRules();
+  }
+}
+
+export function isScrubbingEnabled(): boolean {
+  return config.RECALL_SCRUB_ENABLED;
+}
+
+/**
+ * Every active rule, for status and preview output
+ */
+export function describeScrubRules(): { enabled: boolean, rules: { name: string, builtIn: boolean }[], allowlist: string[] } {
+  const { rules, allowlist } = getRules();
+  return {
+    enabled: isScrubbingEnabled(),
+    rules: rules.map(rule => ({ name: rule.name, builtIn: rule.builtIn })),
+    allowlist: allowlist.map(pattern => pattern.source),
+  };
+}
+
+/**
+ * Replace everything the rules detect in one piece of text
+ */
+export function scrubText(text: string, field: Redaction['field'] = 'text', thoughtNumber?: number): { text: string, redactions: Redaction[] } {
+  const { rules, allowlist } = getRules();
+  const redactions: Redaction[] = [];
+  let scrubbed = text;
+
+  for (const rule of rules) {
+    // Rebuild the text from what lies between matches, so only the secret's own span is replaced
+    let result = '';
+    let end = 0;
+    for (const match of scrubbed.matchAll(rule.pattern)) {
+      const [secretStart, secretEnd] = match.indices?.groups?.secret ?? match.indices![0];
+      const secret = scrubbed.slice(secretStart, secretEnd);
+
+      if (!secret || secret.startsWith('[REDACTED:') || allowlist.some(pattern => pattern.test(secret))) {
+        continue;
+      }
+
+      redactions.push({
+        rule: rule.name,
+        field,
+        ...(thoughtNumber !== undefined ? { thoughtNumber } : {}),
+        preview: `${secret.slice(0, Math.min(4, Math.floor(secret.length / 3)))}…`,
+      });
+      result += `${scrubbed.slice(end, secretStart)}[REDACTED:${rule.name}]`;
+      end = secretEnd;
+    }
+    scrubbed = result + scrubbed.slice(end);
+  }
+
+  return { text: scrubbed, redactions };
+}
+
+/**
+ * Count redactions per rule, as recorded in the session header
+ */
+export function summarizeRedactions(redactions: Redaction[]): ScrubSummary {
+  const rules: Record<string, number> = {};
+  for (const redaction of redactions) {
+    rules[redaction.rule] = (rules[redaction.rule] ?? 0) + 1;
+  }
+  return { redactions: redactions.length, rules };
+}
+
+/**
+ * Scrub the query, result and every thought of a session, without changing the original
+ * @returns The scrubbed record, and every redaction made
+ */
+export function scrubSession(record: SessionRecord): { record: SessionRecord, redactions: Redaction[] } {
+  const redactions: Redaction[] = [];
+  const scrub = (text: string | undefined, field: Redaction['field'], thoughtNumber?: number) => {
+    if (!text) return text;
+    const result = scrubText(text, field, thoughtNumber);
+    redactions.push(...result.redactions);
+    return result.text;
+  };
+
+  const header = { ...record.header };
+  if (header.query) header.query = scrub(header.query, 'query');
+  if (header.result) header.result = scrub(header.result, 'result');
+  const thoughts: SessionThought[] = record.thoughts.map(thought => ({
+    ...thought,
+    thought: scrub(thought.thought, 'thought', thought.thoughtNumber) as string,
+  }));
+
+  return { record: { header: { ...header, scrubbing: summarizeRedactions(redactions) }, thoughts }, redactions };
+}
+
+/**
+ * Scrub a session before it is stored, when scrubbing is enabled.
+ * The header records how many matches each rule replaced.
+ */
+export function scrubSessionForStorage(record: SessionRecord): SessionRecord {
+  return isScrubbingEnabled() ? scrubSession(record).record : record;
+}
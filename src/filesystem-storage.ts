@@ -0,0 +1,285 @@
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { pathToFileURL } from 'url';
+import chalk from 'chalk';
+import { config, logger } from './config.js';
+import {
+  SessionListOptions,
+  SessionListPage,
+  SessionMetadata,
+  SessionObjectInfo,
+  SessionQueryInfo,
+  StorageBackend,
+  StorageStatus,
+  StoreSessionResult,
+  ThoughtData,
+} from './storage-backend.js';
+import {
+  buildSessionRecord,
+  createSessionKey,
+  pageSessionObjects,
+  parseSessionJSONL,
+  parseSessionMetadata,
+  serializeSessionJSONL,
+  sessionMetadata,
+  StoredSession,
+  timestampFromKey,
+} from './session-format.js';
+import { openSessionContent, sealSessionContent } from './session-crypto.js';
+import { addSessionIntegrity } from './session-integrity.js';
+import { scrubSessionForStorage } from './content-scrubber.js';
+
+// Object metadata is kept next to each session file as <key>.meta.json
+const METADATA_SUFFIX = '.meta.json';
+
+/**
+ * Stores sessions as JSONL files in a local directory, using the same keys as
+ * the Recall bucket. Needs no wallet or network, so it suits CI and air-gapped machines.
+ */
+export class FilesystemStorage implements StorageBackend {
+  public readonly name = 'filesystem';
+  private initialized = false;
+  private logPrefix = config.RECALL_LOG_PREFIX;
+  private pendingWrites = new Set<Promise<unknown>>();
+
+  constructor(private directory: string) {}
+
+  public async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      this.initialized = true;
+      logger.error(chalk.green(`✅ Filesystem storage initialized at ${this.directory}`));
+    } catch (error: any) {
+      logger.error(chalk.red(`❌ Error initializing filesystem storage: ${error.message}`));
+      throw error;
+    }
+  }
+
+  public isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  public async storeSession(thoughts: ThoughtData[], queryInfo?: SessionQueryInfo, options?: { key?: string }): Promise<StoreSessionResult | undefined> {
+    await this.initialize();
+
+    if (thoughts.length === 0) {
+      logger.error(chalk.yellow('⚠️ No thoughts to store - returning undefined'));
+      return undefined;
+    }
+
+    const key = options?.key || createSessionKey(this.logPrefix);
+
+    try {
+      const record = scrubSessionForStorage(buildSessionRecord(thoughts, queryInfo));
+      const path = this.pathForKey(key);
+
+      // Metadata goes in a sidecar file, mirroring Recall object metadata
+      await mkdir(dirname(path), { recursive: true });
+      const { content, encryption } = sealSessionContent(serializeSessionJSONL(await addSessionIntegrity(record)));
+      await this.writeAtomic(`${path}${METADATA_SUFFIX}`, JSON.stringify(sessionMetadata(record, encryption)));
+      await this.writeAtomic(path, content);
+
+      logger.error(chalk.green(`✅ Stored session with ${thoughts.length} thoughts to ${path}`));
+      return { success: true, key };
+    } catch (error: any) {
+      logger.error(chalk.red(`❌ Error storing session to filesystem: ${error.message}`));
+      return { success: false, key };
+    }
+  }
+
+  public async listAllSessionObjects(): Promise<SessionObjectInfo[]> {
+    return (await this.scanSessionObjects()).filter(obj => obj.key.startsWith(this.logPrefix));
+  }
+
+  /**
+   * Every session file under the storage directory, including archived ones
+   * @throws When the directory cannot be read
+   */
+  private async scanSessionObjects(): Promise<SessionObjectInfo[]> {
+    await this.initialize();
+
+    try {
+      const files = await readdir(this.directory, { recursive: true });
+      const keys = files
+        .map(file => file.split(sep).join('/'))
+        .filter(key => key.endsWith('.jsonl'));
+
+      // A file deleted or moved while scanning is skipped, not allowed to fail the whole listing
+      const objects = await Promise.all(keys.map(async (key): Promise<SessionObjectInfo | null> => {
+        try {
+          const path = this.pathForKey(key);
+          const info = await stat(path);
+          const metadata = parseSessionMetadata(await this.readMetadata(path));
+          return {
+            key,
+            size: info.size,
+            metadata: {
+              ...metadata,
+              timestamp: metadata.timestamp ?? timestampFromKey(key) ?? info.mtimeMs,
+            },
+          };
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            logger.error(chalk.yellow(`⚠️ Skipping unreadable session file ${key}: ${error.message}`));
+          }
+          return null;
+        }
+      }));
+      return objects.filter((obj): obj is SessionObjectInfo => obj !== null);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      logger.error(chalk.red(`❌ Error listing session files: ${error.message}`));
+      throw new Error(`Could not list stored sessions: ${error.message}`);
+    }
+  }
+
+  public async listSessionObjects(options: SessionListOptions = {}): Promise<SessionListPage> {
+    return pageSessionObjects(await this.scanSessionObjects(), options, this.logPrefix);
+  }
+
+  public async getSessionObject(key: string): Promise<StoredSession | null> {
+    const content = await this.getObjectContent(key);
+    return content ? parseSessionJSONL(key, openSessionContent(content)) : null;
+  }
+
+  public async getObjectContent(key: string): Promise<string | null> {
+    await this.initialize();
+
+    try {
+      return await readFile(this.pathForKey(key), 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Error getting object content: ${error}`);
+      }
+      return null;
+    }
+  }
+
+  public async getSessionMetadata(key: string): Promise<SessionMetadata | null> {
+    await this.initialize();
+
+    const path = this.pathForKey(key);
+    if (!await this.exists(path)) return null;
+    return parseSessionMetadata(await this.readMetadata(path));
+  }
+
+  // Only the sidecar is rewritten; the session file keeps its bytes
+  public async updateSessionMetadata(key: string, changes: Record<string, string | null>): Promise<boolean> {
+    await this.initialize();
+
+    const path = this.pathForKey(key);
+    if (!await this.exists(path)) return false;
+
+    const metadata = { ...(await this.readMetadata(path)) };
+    for (const [name, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete metadata[name];
+      } else {
+        metadata[name] = value;
+      }
+    }
+    await this.writeAtomic(`${path}${METADATA_SUFFIX}`, JSON.stringify(metadata));
+    logger.error(chalk.green(`🏷️ Updated metadata of ${path}`));
+    return true;
+  }
+
+  public async deleteSessionObject(key: string): Promise<boolean> {
+    await this.initialize();
+
+    const path = this.pathForKey(key);
+    try {
+      await unlink(path);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+    await unlink(`${path}${METADATA_SUFFIX}`).catch(() => undefined);
+    logger.error(chalk.green(`🗑️ Deleted ${path}`));
+    return true;
+  }
+
+  public async moveSessionObject(fromKey: string, toKey: string): Promise<boolean> {
+    await this.initialize();
+
+    const from = this.pathForKey(fromKey);
+    const to = this.pathForKey(toKey);
+    await mkdir(dirname(to), { recursive: true });
+    try {
+      await rename(from, to);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+    await rename(`${from}${METADATA_SUFFIX}`, `${to}${METADATA_SUFFIX}`).catch(() => undefined);
+    logger.error(chalk.green(`📦 Moved ${from} to ${to}`));
+    return true;
+  }
+
+  public async getStatusInfo(): Promise<StorageStatus> {
+    return {
+      backend: this.name,
+      initialized: this.initialized,
+      directory: this.directory,
+      logPrefix: this.logPrefix,
+      pendingThoughts: 0,
+    };
+  }
+
+  public async waitForPendingWrites(): Promise<void> {
+    await Promise.all([...this.pendingWrites]);
+  }
+
+  // No wallet here: sessions get a hash chain but no signature
+  public getSignerAddress(): string | undefined {
+    return undefined;
+  }
+
+  public getViewUrl(key: string): string | null {
+    try {
+      return pathToFileURL(this.pathForKey(key)).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write to a temp file first so readers never see a partial file
+   */
+  private async writeAtomic(path: string, data: string): Promise<void> {
+    const write = writeFile(`${path}.tmp`, data, { encoding: 'utf8', mode: 0o600 })
+      .then(() => rename(`${path}.tmp`, path));
+    const tracked = write.catch(() => undefined).finally(() => this.pendingWrites.delete(tracked));
+    this.pendingWrites.add(tracked);
+    await write;
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    return stat(path).then(() => true, () => false);
+  }
+
+  /**
+   * Read the metadata sidecar for a session file; sessions stored before sidecars existed have none
+   */
+  private async readMetadata(path: string): Promise<Record<string, unknown> | undefined> {
+    try {
+      return JSON.parse(await readFile(`${path}${METADATA_SUFFIX}`, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve a key to a path, refusing keys that escape the storage directory
+   */
+  private pathForKey(key: string): string {
+    const root = resolve(this.directory);
+    const path = resolve(root, key);
+    const rel = relative(root, path);
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+      throw new Error(`Invalid session key: ${key}`);
+    }
+    return join(root, rel);
+  }
+}
@@ -0,0 +1,141 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import chalk from 'chalk';
+import { checkHttpToken, hasHttpToken, logger } from './config.js';
+
+// Clients open the event stream here, then post messages to the endpoint it announces
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+// An MCP server owned by one HTTP connection
+export interface ConnectionServer {
+  server: Server;
+  // Called once the connection is gone, to release what the server holds
+  close(): Promise<void>;
+}
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  // Host names clients may use besides localhost and the bind address, e.g. behind a proxy
+  allowedHosts?: string[];
+  // Builds a fresh server for every connection, so clients never share open sessions
+  createServer: () => ConnectionServer;
+}
+
+/**
+ * Host name of a Host header or Origin, lowercase and without IPv6 brackets
+ */
+function hostnameOf(value: string, withScheme: boolean): string | undefined {
+  try {
+    return new URL(withScheme ? value : `http://${value}`).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reject a request whose Host or Origin names another site. Browsers send both, so a web page
+ * that rebinds its own domain to this address cannot reach the server.
+ * @returns Whether the request may proceed
+ */
+function checkHost(req: IncomingMessage, res: ServerResponse, allowed: Set<string>): boolean {
+  const host = hostnameOf(req.headers.host ?? '', false);
+  const origin = req.headers.origin;
+  if (host && allowed.has(host) && (origin === undefined || allowed.has(hostnameOf(origin, true) ?? ''))) {
+    return true;
+  }
+
+  logger.error(chalk.yellow(`⚠️ Refused request with Host ${JSON.stringify(req.headers.host)}${origin ? ` and Origin ${JSON.stringify(origin)}` : ''}`));
+  res.writeHead(403).end('Forbidden');
+  return false;
+}
+
+/**
+ * Reject a request that does not carry the configured bearer token
+ * @returns Whether the request may proceed
+ */
+function authorize(req: IncomingMessage, res: ServerResponse): boolean {
+  if (!hasHttpToken()) return true;
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  if (match && checkHttpToken(match[1].trim())) return true;
+
+  res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+  return false;
+}
+
+/**
+ * Serve MCP over HTTP with server-sent events. Each GET to SSE_PATH is one client connection
+ * with its own server; the client posts its messages to MESSAGES_PATH with the sessionId
+ * the stream announced.
+ * @returns The listening HTTP server
+ * @throws When binding beyond loopback without RECALL_HTTP_TOKEN
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpServer> {
+  const connections = new Map<string, SSEServerTransport>();
+
+  // Anyone who can reach a non-loopback address could read and delete sessions
+  if (!hasHttpToken() && !LOOPBACK_HOSTS.includes(options.host)) {
+    throw new Error(`RECALL_HTTP_TOKEN is required to listen on ${options.host}; set it or bind to 127.0.0.1`);
+  }
+  const allowedHosts = new Set([...LOOPBACK_HOSTS, options.host, ...(options.allowedHosts ?? [])].map(host => host.toLowerCase()));
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (!checkHost(req, res, allowedHosts) || !authorize(req, res)) return;
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const connection = options.createServer();
+        const sessionId = transport.sessionId;
+        // The full id is long enough for the log redaction to hide it
+        const label = sessionId.slice(0, 8);
+        connections.set(sessionId, transport);
+        logger.error(chalk.blue(`🔌 Client connected over HTTP (${label}, ${connections.size} open)`));
+
+        connection.server.onclose = () => {
+          connections.delete(sessionId);
+          logger.error(chalk.blue(`🔌 Client disconnected (${label}, ${connections.size} open)`));
+          connection.close().catch((error: any) => {
+            logger.error(chalk.red(`❌ Error closing connection ${label}: ${error.message}`));
+          });
+        };
+        await connection.server.connect(transport);
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+        const transport = connections.get(url.searchParams.get('sessionId') ?? '');
+        if (!transport) {
+          res.writeHead(404).end('Unknown or closed session');
+          return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      res.writeHead(404).end('Not found');
+    } catch (error: any) {
+      logger.error(chalk.red(`❌ Error handling ${req.method} ${url.pathname}: ${error.message}`));
+      if (!res.headersSent) {
+        res.writeHead(500).end('Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
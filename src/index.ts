@@ -1,309 +1,42 @@
-import { config, logger } from './config.js';
+import { config, logger, releaseSecrets, SERVER_VERSION } from './config.js';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Server as HttpServer } from 'http';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 import chalk from 'chalk';
-import { recallIntegration } from './recall-integration.js';
-
-
-interface ThoughtData {
-  thought: string;
-  thoughtNumber: number;
-  totalThoughts: number;
-  isRevision?: boolean;
-  revisesThought?: number;
-  branchFromThought?: number;
-  branchId?: string;
-  needsMoreThoughts?: boolean;
-  nextThoughtNeeded: boolean;
-}
-
-class SequentialThinkingServer {
-  private thoughtHistory: ThoughtData[] = [];
-  private branches: Record<string, ThoughtData[]> = {};
-  private currentQuery?: string;
-  private currentSessionId: string = '';
-
-  constructor() {
-    // Initialize Recall integration
-    this.initializeRecall();
-    // Generate initial session ID
-    this.generateNewSessionId();
-  }
-
-  private generateNewSessionId(): string {
-    this.currentSessionId = `session-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
-    logger.error(chalk.blue(`🔄 Created new session ID: ${this.currentSessionId}`));
-    return this.currentSessionId;
-  }
-
-  private clearSession(): void {
-    logger.error(chalk.blue(`🧹 Clearing session data for ${this.currentSessionId}`));
-    this.thoughtHistory = [];
-    this.branches = {};
-    this.currentQuery = undefined;
-    this.generateNewSessionId();
-  }
-
-  private async initializeRecall(): Promise<void> {
-    try {
-      await recallIntegration.initializeBucket();
-      logger.error(chalk.green('🔄 Recall integration initialized for sequential thinking logs'));
-    } catch (error: any) {
-      logger.error(chalk.yellow(`⚠️ Recall initialization failed: ${error.message}`));
-      logger.error(chalk.yellow('Sequential thinking will still work but logs won\'t be stored in Recall'));
-    }
-  }
-
-  private validateThoughtData(input: unknown): ThoughtData {
-    const data = input as Record<string, unknown>;
-
-    if (!data.thought || typeof data.thought !== 'string') {
-      throw new Error('Invalid thought: must be a string');
-    }
-    if (!data.thoughtNumber || typeof data.thoughtNumber !== 'number') {
-      throw new Error('Invalid thoughtNumber: must be a number');
-    }
-    if (!data.totalThoughts || typeof data.totalThoughts !== 'number') {
-      throw new Error('Invalid totalThoughts: must be a number');
-    }
-    if (typeof data.nextThoughtNeeded !== 'boolean') {
-      throw new Error('Invalid nextThoughtNeeded: must be a boolean');
-    }
-
-    return {
-      thought: data.thought,
-      thoughtNumber: data.thoughtNumber,
-      totalThoughts: data.totalThoughts,
-      nextThoughtNeeded: data.nextThoughtNeeded,
-      isRevision: data.isRevision as boolean | undefined,
-      revisesThought: data.revisesThought as number | undefined,
-      branchFromThought: data.branchFromThought as number | undefined,
-      branchId: data.branchId as string | undefined,
-      needsMoreThoughts: data.needsMoreThoughts as boolean | undefined,
-    };
-  }
-
-  private formatThought(thoughtData: ThoughtData): string {
-    const { thoughtNumber, totalThoughts, thought, isRevision, revisesThought, branchFromThought, branchId } = thoughtData;
-
-    let prefix = '';
-    let context = '';
-
-    if (isRevision) {
-      prefix = chalk.yellow('🔄 Revision');
-      context = ` (revising thought ${revisesThought})`;
-    } else if (branchFromThought) {
-      prefix = chalk.green('🌿 Branch');
-      context = ` (from thought ${branchFromThought}, ID: ${branchId})`;
-    } else {
-      prefix = chalk.blue('💭 Thought');
-      context = '';
-    }
-
-    const header = `${prefix} ${thoughtNumber}/${totalThoughts}${context}`;
-    const border = '─'.repeat(Math.max(header.length, thought.length) + 4);
-
-    return `
-┌${border}┐
-│ ${header} │
-├${border}┤
-│ ${thought.padEnd(border.length - 2)} │
-└${border}┘`;
-  }
-
-  private async storeSessionToRecall(): Promise<{ txHash?: string, success: boolean, key: string } | undefined> {
-    if (this.thoughtHistory.length === 0) return undefined;
-    
-    try {
-      logger.error(chalk.blue(`🔍 Debug: Attempting to store session ${this.currentSessionId} with ${this.thoughtHistory.length} thoughts to Recall`));
-      const status = await recallIntegration.getStatusInfo();
-      logger.error(chalk.blue(`🔍 Debug: Recall status before storing session: ${JSON.stringify(status, null, 2)}`));
-      
-      // Store the session with all accumulated thoughts
-      logger.error(chalk.blue(`🔍 Debug: Storing complete thought history with ${this.thoughtHistory.length} thoughts`));
-      
-      // Create a deep clone of the thoughts to prevent any reference issues
-      const thoughtsToStore = this.thoughtHistory.map(thought => ({
-        ...thought,
-        thought: thought.thought,  // Explicitly copy the thought text
-        thoughtNumber: thought.thoughtNumber,
-        totalThoughts: thought.totalThoughts,
-        nextThoughtNeeded: thought.nextThoughtNeeded,
-        // Include other properties if present
-        isRevision: thought.isRevision,
-        revisesThought: thought.revisesThought,
-        branchFromThought: thought.branchFromThought,
-        branchId: thought.branchId,
-        needsMoreThoughts: thought.needsMoreThoughts,
-        // Add the session ID for tracking
-        sessionId: this.currentSessionId
-      }));
-      
-      // Log each thought for debugging
-      thoughtsToStore.forEach((thought, index) => {
-        logger.error(chalk.blue(`🔍 Debug: Thought ${index + 1}: ${JSON.stringify({
-          thought: thought.thought.substring(0, 50) + (thought.thought.length > 50 ? '...' : ''),
-          thoughtNumber: thought.thoughtNumber,
-          totalThoughts: thought.totalThoughts,
-          nextThoughtNeeded: thought.nextThoughtNeeded,
-          sessionId: thought.sessionId
-        })}`));
-      });
-      
-      const storeResult = await recallIntegration.storeSession(
-        thoughtsToStore,
-        { 
-          query: this.currentQuery || 'No query provided',
-          sessionId: this.currentSessionId
-        }
-      );
-      
-      if (storeResult?.success) {
-        logger.error(chalk.green(`✅ Debug: Successfully stored session with result: ${JSON.stringify(storeResult, null, 2)}`));
-      } else {
-        logger.error(chalk.yellow(`⚠️ Debug: Store session returned unsuccessful result`));
-      }
-      
-      return storeResult;
-    } catch (error: any) {
-      logger.error(chalk.red(`❌ Error handling session storage: ${error.message}`));
-      logger.error(chalk.red(`Stack trace: ${error.stack}`));
-      return undefined;
-    }
-  }
-
-  public async processThought(input: unknown, query?: string): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
-    try {
-      const validatedInput = this.validateThoughtData(input);
-
-      // Save the query if provided and not already set
-      if (query && !this.currentQuery) {
-        this.currentQuery = query;
-        logger.error(chalk.blue(`🔍 Set query: "${query.substring(0, 50)}${query.length > 50 ? '...' : ''}"`));
-      }
-
-      if (validatedInput.thoughtNumber > validatedInput.totalThoughts) {
-        validatedInput.totalThoughts = validatedInput.thoughtNumber;
-      }
-
-      // Add to our local thought history
-      this.thoughtHistory.push(validatedInput);
-      logger.error(chalk.blue(`📝 Added thought #${validatedInput.thoughtNumber} to memory (now have ${this.thoughtHistory.length} thoughts)`));
-
-      if (validatedInput.branchFromThought && validatedInput.branchId) {
-        if (!this.branches[validatedInput.branchId]) {
-          this.branches[validatedInput.branchId] = [];
-        }
-        this.branches[validatedInput.branchId].push(validatedInput);
-      }
-
-      const formattedThought = this.formatThought(validatedInput);
-      logger.error(formattedThought);
+import { mkdir, realpath, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { getStorageBackend } from './storage.js';
+import { sessionOutbox } from './outbox.js';
+import { SSE_PATH, startHttpTransport } from './http-transport.js';
+import { SequentialThinkingServer } from './thinking-server.js';
+import { sessionSearchIndex } from './session-search.js';
+import { sessionEvents } from './session-events.js';
+import { buildThoughtGraph } from './session-graph.js';
+import { compareSessions } from './session-compare.js';
+import { verifyStoredSession } from './session-integrity.js';
+import { openSessionContent } from './session-crypto.js';
+import { buildSessionRecord } from './session-format.js';
+import { labelsOf, parseLabelFilter, relabelSession } from './session-labels.js';
+import { sessionStatsCache, summarizeStats } from './session-stats.js';
+import { checkScrubRules, describeScrubRules, scrubSession, scrubText, summarizeRedactions } from './content-scrubber.js';
+import { applyRetention, archiveSession, deleteSession, getRetentionRules, planRetention } from './session-retention.js';
+import { EXPORT_FORMATS, ExportFormat, RenderableSession, renderSession } from './session-export.js';
+import { listSessionResources, readSessionResource, SESSION_RESOURCE_TEMPLATES } from './session-resources.js';
+import { getThinkingPrompt, listThinkingPrompts } from './prompts.js';
 
-      // If this is the last thought (nextThoughtNeeded is false), store the complete session
-      let sessionInfo;
-      if (!validatedInput.nextThoughtNeeded) {
-        logger.error(chalk.blue(`🔍 Debug: Final thought received (${validatedInput.thoughtNumber}/${validatedInput.totalThoughts}), storing complete session to Recall`));
-        
-        // Log the number of thoughts we have in memory before storage
-        logger.error(chalk.blue(`📊 Debug: Thought history contains ${this.thoughtHistory.length} thoughts before storage`));
-        
-        // Store all thoughts at once
-        sessionInfo = await this.storeSessionToRecall();
-        
-        // Direct logger output for debugging Recall transactions
-        if (sessionInfo) {
-          // Get the bucketAddress for the portal URL
-          const recallStatus = await recallIntegration.getStatusInfo();
-          const portalUrl = `https://portal.recall.network/buckets/${recallStatus.bucketAddress}?path=${sessionInfo.key}`;
-          
-          logger.error(chalk.magenta(`
-╔═════════════════════════════════════════════════════════
-║ 📊 RECALL SESSION QUEUED
-║ Key: ${sessionInfo.key}
-║ Success: ${sessionInfo.success ? '✅' : '❌'}
-║ Transaction: ${sessionInfo.txHash || 'Pending'}
-║ 
-║ 🔗 View in Recall Portal:
-║ ${portalUrl}
-╚═════════════════════════════════════════════════════════
-`));
-          
-          // After successful storage, clear the session data to prepare for a new sequence
-          if (sessionInfo.success) {
-            // Clear the session data
-            this.clearSession();
-            logger.error(chalk.green(`✅ Session data cleared, ready for new thoughts`));
-          }
-        } else {
-          logger.error(chalk.yellow(`⚠️ Warning: No session info returned from storeSessionToRecall!`));
-        }
-      } else {
-        logger.error(chalk.blue(`🔍 Debug: Non-final thought #${validatedInput.thoughtNumber} added to memory, waiting for more thoughts`));
-      }
-
-      // Build the response with recall information if available
-      const response = {
-        thoughtNumber: validatedInput.thoughtNumber,
-        totalThoughts: validatedInput.totalThoughts,
-        nextThoughtNeeded: validatedInput.nextThoughtNeeded,
-        branches: Object.keys(this.branches),
-        thoughtHistoryLength: this.thoughtHistory.length,
-        // Include the complete thought history data
-        thoughtHistory: this.thoughtHistory
-      };
-
-      // Add a separate field specifically for Claude to see the Recall info
-      const recallStatus = await recallIntegration.getStatusInfo();
-      const responseWithRecall = {
-        ...response,
-        recallInfo: sessionInfo ? {
-          txHash: sessionInfo?.txHash,
-          success: sessionInfo?.success,
-          key: sessionInfo?.key,
-          operation: 'session',
-          stored: true,
-          pendingTransactionCount: recallIntegration.isInitialized() ? 
-            (await recallIntegration.getStatusInfo()).pendingThoughts : 0,
-          // Add the URL for viewing the session in the Recall portal
-          viewUrl: `https://portal.recall.network/buckets/${recallStatus.bucketAddress}?path=${sessionInfo.key}`
-        } : {
-          stored: false,
-          reason: validatedInput.nextThoughtNeeded ? 
-            "Session not complete yet - storing in memory only" : 
-            "Recall storage pending or unavailable",
-          thoughtsInMemory: this.thoughtHistory.length,
-          isSessionComplete: !validatedInput.nextThoughtNeeded
-        }
-      };
-
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(responseWithRecall, null, 2)
-        }]
-      };
-    } catch (error) {
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            error: error instanceof Error ? error.message : String(error),
-            status: 'failed'
-          }, null, 2)
-        }],
-        isError: true
-      };
-    }
-  }
-}
 
 const SEQUENTIAL_THINKING_TOOL: Tool = {
   name: "sequentialthinking",
@@ -348,6 +81,7 @@ Parameters explained:
 - branch_from_thought: If branching, which thought number is the branching point
 - branch_id: Identifier for the current branch (if any)
 - needs_more_thoughts: If reaching end but realizing more thoughts needed
+- session_id: Optional identifier that keeps this line of thinking separate from other tasks using the same server
 
 You should:
 1. Start with an initial estimate of needed thoughts, but be ready to adjust
@@ -415,6 +149,23 @@ View in Recall Portal: [viewUrl]"`,
       needsMoreThoughts: {
         type: "boolean",
         description: "If more thoughts are needed"
+      },
+      sessionId: {
+        type: "string",
+        description: "Optional session identifier. Use a distinct value per parallel task to keep their thoughts isolated; omit to use the default session"
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Optional labels for the session, e.g. [\"bug\", \"auth\"]. Tags from later thoughts are added to earlier ones"
+      },
+      project: {
+        type: "string",
+        description: "Optional name of the project or repository the session belongs to"
+      },
+      author: {
+        type: "string",
+        description: "Optional label for who the session is by or for"
       }
     },
     required: ["thought", "nextThoughtNeeded", "thoughtNumber", "totalThoughts"]
@@ -431,6 +182,10 @@ const RECALL_STATUS_TOOL: Tool = {
       check: {
         type: "boolean",
         description: "Set to true to check the status"
+      },
+      flushOutbox: {
+        type: "boolean",
+        description: "Set to true to retry all sessions waiting in the local outbox immediately"
       }
     },
     required: ["check"]
@@ -440,13 +195,53 @@ const RECALL_STATUS_TOOL: Tool = {
 // Add a new tool for listing all session objects
 const LIST_SESSIONS_TOOL: Tool = {
   name: "listsessions",
-  description: "List all sequential thinking session objects stored in Recall",
+  description: "List sequential thinking session objects stored in Recall, a page at a time. Pass nextCursor from the response as cursor to get the next page.",
   inputSchema: {
     type: "object",
     properties: {
       includePortalLinks: {
         type: "boolean",
         description: "Whether to include portal links for each session"
+      },
+      limit: {
+        type: "integer",
+        description: "Maximum sessions to return (default 50, max 500)",
+        minimum: 1,
+        maximum: 500
+      },
+      cursor: {
+        type: "string",
+        description: "nextCursor from a previous listsessions call, to continue where it stopped"
+      },
+      sort: {
+        type: "string",
+        enum: ["oldest", "newest"],
+        description: "Order by creation time (default oldest first)"
+      },
+      createdAfter: {
+        type: "string",
+        description: "Only sessions created at or after this date/time (ISO 8601)"
+      },
+      createdBefore: {
+        type: "string",
+        description: "Only sessions created at or before this date/time (ISO 8601)"
+      },
+      keyPrefix: {
+        type: "string",
+        description: "Only sessions whose key starts with this prefix (defaults to the configured log prefix)"
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only sessions with every one of these tags"
+      },
+      project: {
+        type: "string",
+        description: "Only sessions for this project"
+      },
+      author: {
+        type: "string",
+        description: "Only sessions by this author"
       }
     },
     required: []
@@ -463,160 +258,746 @@ const GET_SESSION_TOOL: Tool = {
       key: {
         type: "string",
         description: "The key/filename of the session to retrieve"
+      },
+      view: {
+        type: "string",
+        enum: ["thoughts", "graph", "final"],
+        description: "thoughts (default): the session as stored. graph: also return the thought graph of main line, branches and revision edges. final: only the final effective reasoning path, without superseded thoughts or abandoned branches"
+      }
+    },
+    required: ["key"]
+  }
+};
+
+// Add a new tool for listing the open in-memory sessions
+const LIST_ACTIVE_SESSIONS_TOOL: Tool = {
+  name: "listactivesessions",
+  description: "List the thinking sessions currently open in memory on this server, with their progress",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: []
+  }
+};
+
+// Add a new tool for resuming a stored session
+const RESUME_SESSION_TOOL: Tool = {
+  name: "resumesession",
+  description: "Load a stored sequential thinking session back into memory and keep thinking from its last thought. The finished session is stored as a new version linked to the original key.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      key: {
+        type: "string",
+        description: "The key/filename of the stored session to resume"
+      },
+      sessionId: {
+        type: "string",
+        description: "Optional session identifier to resume into; omit to make it the default session"
       }
     },
     required: ["key"]
   }
 };
 
-const server = new Server(
-  {
-    name: "sequential-thinking-server",
-    version: "0.2.0",
-  },
-  {
-    capabilities: {
-      tools: {},    // We support tools
-      resources: {}, // We support resources (even if we just return empty arrays)
-      prompts: {}    // We support prompts (even if we just return empty arrays)
+// Add a new tool for searching stored sessions
+const SEARCH_SESSIONS_TOOL: Tool = {
+  name: "searchsessions",
+  description: "Full-text search across all stored sequential thinking sessions. Matches thought text, session queries and branch IDs, and returns ranked sessions with matching snippets and thought numbers.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Words or phrase to search for"
+      },
+      limit: {
+        type: "integer",
+        description: "Maximum number of sessions to return (default 10)",
+        minimum: 1
+      },
+      refresh: {
+        type: "boolean",
+        description: "Check storage for new sessions before searching (default true). Set to false to search only the local index"
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only sessions with every one of these tags"
+      },
+      project: {
+        type: "string",
+        description: "Only sessions for this project"
+      },
+      author: {
+        type: "string",
+        description: "Only sessions by this author"
+      }
     },
+    required: ["query"]
   }
-);
+};
 
-const thinkingServer = new SequentialThinkingServer();
+/**
+ * Parse an optional ISO 8601 date argument into milliseconds since the epoch
+ */
+function parseDateArgument(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [SEQUENTIAL_THINKING_TOOL, RECALL_STATUS_TOOL, LIST_SESSIONS_TOOL, GET_SESSION_TOOL],
-}));
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${name}: expected an ISO 8601 date, got ${JSON.stringify(value)}`);
+  }
+  return time;
+}
 
-// Add empty handlers for resources and prompts
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-  resources: [],
-}));
+/**
+ * Resolve an export path inside RECALL_EXPORT_DIR and create its parent directories,
+ * refusing paths that leave the directory, including through symlinks
+ */
+async function resolveExportPath(outputPath: string): Promise<string> {
+  const root = resolve(config.RECALL_EXPORT_DIR);
+  const path = resolve(root, outputPath);
+  const rel = relative(root, path);
+  if (!rel || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Invalid outputPath: ${outputPath} is outside the export directory ${root}`);
+  }
 
-server.setRequestHandler(ListPromptsRequestSchema, async () => ({
-  prompts: [],
-}));
+  // Check the deepest directory that already exists, before creating any below it
+  await mkdir(root, { recursive: true });
+  let existing = dirname(path);
+  while (!await realpath(existing).then(() => true, () => false)) {
+    existing = dirname(existing);
+  }
+  const realRel = relative(await realpath(root), await realpath(existing));
+  if (realRel.startsWith('..') || isAbsolute(realRel)) {
+    throw new Error(`Invalid outputPath: ${outputPath} is outside the export directory ${root}`);
+  }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    if (request.params.name === "sequentialthinking") {
-      // Try to extract the query from the arguments if possible
-      // Many LLM clients will include "metadata" in the arguments with query information
-      const args = request.params.arguments as Record<string, any>;
-      const query = args?._metadata?.query || args?._meta?.query || undefined;
-      
-      // Add debug output for tracking requests
-      logger.error(chalk.blue(`🔄 Received sequential thinking request with thought #${args.thoughtNumber}/${args.totalThoughts}`));
-      logger.error(chalk.blue(`🔄 Thought content: ${args.thought.substring(0, 100)}${args.thought.length > 100 ? '...' : ''}`));
-      
-      // Check Recall status before processing
-      try {
-        const status = await recallIntegration.getStatusInfo();
-        logger.error(chalk.blue(`🔍 Current Recall status: ${JSON.stringify(status, null, 2)}`));
-      } catch (error: any) {
-        logger.error(chalk.yellow(`⚠️ Error checking Recall status: ${error.message}`));
+  await mkdir(dirname(path), { recursive: true });
+  return path;
+}
+
+// Add a new tool for exporting a session as a document
+const EXPORT_SESSION_TOOL: Tool = {
+  name: "exportsession",
+  description: "Render a stored or live sequential thinking session as Markdown, a Mermaid flowchart of its thought graph, or a self-contained HTML page. Returns the rendering, or writes it to a local file when outputPath is given.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      key: {
+        type: "string",
+        description: "Key of a stored session"
+      },
+      sessionId: {
+        type: "string",
+        description: "ID of a live session still open in memory (instead of key)"
+      },
+      format: {
+        type: "string",
+        enum: ["markdown", "mermaid", "html"],
+        description: "Output format (default markdown)"
+      },
+      outputPath: {
+        type: "string",
+        description: "Write the rendering to this file instead of returning it; relative to the export directory, which it may not leave"
+      },
+      overwrite: {
+        type: "boolean",
+        description: "Replace outputPath if it already exists (default false)"
       }
-      
-      return await thinkingServer.processThought(request.params.arguments, query);
-    } else if (request.params.name === "recallstatus") {
-      try {
-        // Check if Recall is initialized
-        logger.error(chalk.blue('🔍 Checking Recall status...'));
-        
-        // Force initialize if needed
-        if (!recallIntegration.isInitialized()) {
-          logger.error(chalk.yellow('⚠️ Recall not initialized, reinitializing...'));
-          await recallIntegration.initializeBucket();
-        }
-        
-        const bucketInfo = await recallIntegration.getStatusInfo();
-        logger.error(chalk.green(`✅ Recall status check succeeded: ${JSON.stringify(bucketInfo, null, 2)}`));
-        
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              recallStatus: {
-                initialized: bucketInfo.initialized,
-                bucketAddress: bucketInfo.bucketAddress,
-                bucketAlias: config.RECALL_BUCKET_ALIAS,
-                logPrefix: config.RECALL_LOG_PREFIX
-              }
-            }, null, 2)
-          }]
-        };
-      } catch (error) {
-        logger.error(chalk.red(`❌ Error checking Recall status: ${error instanceof Error ? error.message : String(error)}`));
-        
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              recallStatus: {
-                initialized: false,
-                error: error instanceof Error ? error.message : String(error)
-              }
-            }, null, 2)
-          }]
-        };
+    },
+    required: []
+  }
+};
+
+// Add a new tool for comparing two stored sessions
+const COMPARE_SESSIONS_TOOL: Tool = {
+  name: "comparesessions",
+  description: "Compare two stored sequential thinking sessions, e.g. the same problem run with different prompts or models. Reports word-level diffs per thought, where the sessions diverge, differences in branches and revisions, and length and outcome statistics.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      keyA: {
+        type: "string",
+        description: "Key of the first (baseline) session"
+      },
+      keyB: {
+        type: "string",
+        description: "Key of the session to compare against it"
+      },
+      includeIdentical: {
+        type: "boolean",
+        description: "Also list thoughts that are the same in both sessions (default false)"
       }
-    } else if (request.params.name === "listsessions") {
-      // Implementation for listing sessions
-      try {
-        logger.error(chalk.blue('🔍 Listing all sequential thinking sessions...'));
-        
-        // Force initialize if needed
-        if (!recallIntegration.isInitialized()) {
-          logger.error(chalk.yellow('⚠️ Recall not initialized, reinitializing...'));
-          await recallIntegration.initializeBucket();
-        }
-        
-        const status = await recallIntegration.getStatusInfo();
-        const bucketAddress = status.bucketAddress;
-        
-        // Get all objects in the bucket
-        const allObjects = await recallIntegration.listAllSessionObjects();
-        
-        // Process session objects
-        const sessionObjects = allObjects.map(obj => {
-          // Parse the object key to extract information
-          const fileName = obj.key;
-          const createdTime = obj.metadata?.timestamp || 'Unknown';
-          const thoughtCount = obj.metadata?.thoughtCount || 'Unknown';
-          
-          // Format the created time
-          const formattedTime = new Date(createdTime).toLocaleString();
-          
-          // Create portal link if requested
-          const args = request.params.arguments as Record<string, any>;
-          const includePortalLinks = args?.includePortalLinks;
-          const portalLink = includePortalLinks ? 
-            `https://portal.recall.network/buckets/${bucketAddress}?path=${fileName}` : null;
-          
-          return {
-            fileName,
-            createdTime: formattedTime,
-            thoughtCount,
-            ...(portalLink ? { portalLink } : {})
-          };
-        });
-        
-        logger.error(chalk.green(`✅ Successfully retrieved ${sessionObjects.length} session objects`));
-        
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              sessions: sessionObjects,
-              count: sessionObjects.length,
-              bucketAddress
-            }, null, 2)
+    },
+    required: ["keyA", "keyB"]
+  }
+};
+
+// Add tools for removing stored sessions; both change storage, so they need confirm: true
+const DELETE_SESSION_TOOL: Tool = {
+  name: "deletesession",
+  description: "Permanently delete a stored sequential thinking session. Requires confirm: true.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      key: {
+        type: "string",
+        description: "Key of the session to delete"
+      },
+      confirm: {
+        type: "boolean",
+        description: "Must be true; the session cannot be recovered afterwards"
+      }
+    },
+    required: ["key", "confirm"]
+  }
+};
+
+const ARCHIVE_SESSION_TOOL: Tool = {
+  name: "archivesession",
+  description: `Move a stored session under the archive prefix (${config.RECALL_ARCHIVE_PREFIX}), out of listings and search but still readable by key. Requires confirm: true.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      key: {
+        type: "string",
+        description: "Key of the session to archive"
+      },
+      confirm: {
+        type: "boolean",
+        description: "Must be true to move the session"
+      }
+    },
+    required: ["key", "confirm"]
+  }
+};
+
+const APPLY_RETENTION_TOOL: Tool = {
+  name: "applyretention",
+  description: "Apply the retention policy from RECALL_RETENTION_RULES (maximum age and count per key prefix). Runs as a dry run unless dryRun is false and confirm is true.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      dryRun: {
+        type: "boolean",
+        description: "Only report what would be archived or deleted (default true)"
+      },
+      confirm: {
+        type: "boolean",
+        description: "Must be true, together with dryRun: false, to archive or delete sessions"
+      }
+    },
+    required: []
+  }
+};
+
+// Add a new tool for checking that a stored session was not altered
+const VERIFY_SESSION_TOOL: Tool = {
+  name: "verifysession",
+  description: "Check a stored session's hash chain and wallet signature, and report the address that signed it. Detects thoughts or header fields edited, added or removed after storage.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      key: {
+        type: "string",
+        description: "Key of the session to verify"
+      },
+      expectedSigner: {
+        type: "string",
+        description: "Address the session should be signed by (defaults to this server's wallet)"
+      }
+    },
+    required: ["key"]
+  }
+};
+
+// Add a new tool for analytics over stored sessions
+const SESSION_STATS_TOOL: Tool = {
+  name: "sessionstats",
+  description: "Aggregate statistics over stored sessions: thoughts per session, how often totalThoughts is raised, revision, branch and needsMoreThoughts rates, and duration. Filter by creation time and labels. Returns JSON followed by a short text summary.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      createdAfter: {
+        type: "string",
+        description: "Only sessions created at or after this date/time (ISO 8601)"
+      },
+      createdBefore: {
+        type: "string",
+        description: "Only sessions created at or before this date/time (ISO 8601)"
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only sessions with every one of these tags"
+      },
+      project: {
+        type: "string",
+        description: "Only sessions for this project"
+      },
+      author: {
+        type: "string",
+        description: "Only sessions by this author"
+      },
+      includeIncomplete: {
+        type: "boolean",
+        description: "Also count checkpoints of sessions still in progress (default false)"
+      }
+    },
+    required: []
+  }
+};
+
+// Add a new tool for changing a stored session's labels
+const TAG_SESSION_TOOL: Tool = {
+  name: "tagsession",
+  description: "Change the tags, project or author of a stored session. Only its metadata is rewritten; the thoughts and header stay as stored.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      key: {
+        type: "string",
+        description: "Key of the session to relabel"
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Replace every tag with these"
+      },
+      addTags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Tags to add"
+      },
+      removeTags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Tags to remove"
+      },
+      project: {
+        type: "string",
+        description: "New project name; an empty string removes it"
+      },
+      author: {
+        type: "string",
+        description: "New author; an empty string removes it"
+      }
+    },
+    required: ["key"]
+  }
+};
+
+// Add a new tool for previewing what content scrubbing would redact
+const PREVIEW_SCRUB_TOOL: Tool = {
+  name: "previewscrub",
+  description: "Dry run of the content scrubber that runs before sessions are stored: shows which rules would fire on some text or an open session, and the redacted result. Nothing is stored or changed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      text: {
+        type: "string",
+        description: "Text to scrub"
+      },
+      sessionId: {
+        type: "string",
+        description: "Open session to preview instead, as listed by listactivesessions"
+      }
+    },
+    required: []
+  }
+};
+
+// One MCP server and the thinking sessions it owns
+interface ServerInstance {
+  server: Server;
+  thinkingServer: SequentialThinkingServer;
+  close(): Promise<void>;
+}
+
+// Every server this process runs: one over stdio, or one per HTTP connection
+const instances = new Set<ServerInstance>();
+
+// Tell clients to refresh their resource list whenever sessions are stored, opened or closed.
+// One listener serves every server, so many HTTP connections do not pile up listeners.
+const notifyResourceListChanged = () => {
+  for (const { server } of instances) {
+    server.sendResourceListChanged().catch((error: any) => {
+      logger.error(chalk.yellow(`⚠️ Could not send resource list changed notification: ${error.message}`));
+    });
+  }
+};
+sessionEvents.on('stored', notifyResourceListChanged);
+sessionEvents.on('active-changed', notifyResourceListChanged);
+sessionEvents.on('removed', notifyResourceListChanged);
+
+/**
+ * Build an MCP server with its own thinking sessions. Stored sessions, the outbox
+ * and the storage backend are shared by every server in the process.
+ */
+function createServer(): ServerInstance {
+  const server = new Server(
+    {
+      name: "sequential-thinking-server",
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},    // We support tools
+        resources: { listChanged: true }, // Stored and live sessions, with list-changed notifications
+        prompts: {}    // Structured thinking workflows
+      },
+    }
+  );
+
+  const thinkingServer = new SequentialThinkingServer();
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [SEQUENTIAL_THINKING_TOOL, RECALL_STATUS_TOOL, LIST_SESSIONS_TOOL, GET_SESSION_TOOL, LIST_ACTIVE_SESSIONS_TOOL, RESUME_SESSION_TOOL, SEARCH_SESSIONS_TOOL, EXPORT_SESSION_TOOL, COMPARE_SESSIONS_TOOL, DELETE_SESSION_TOOL, ARCHIVE_SESSION_TOOL, APPLY_RETENTION_TOOL, VERIFY_SESSION_TOOL, PREVIEW_SCRUB_TOOL, TAG_SESSION_TOOL, SESSION_STATS_TOOL],
+  }));
+
+  // Expose stored and live sessions as resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: await listSessionResources(thinkingServer),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: SESSION_RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    logger.error(chalk.blue(`📖 Reading resource: ${request.params.uri}`));
+    return {
+      contents: await readSessionResource(request.params.uri, thinkingServer),
+    };
+  });
+
+  // Structured thinking workflows that drive the sequentialthinking tool
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listThinkingPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    logger.error(chalk.blue(`📝 Building prompt: ${request.params.name}`));
+    return getThinkingPrompt(request.params.name, request.params.arguments);
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => handleToolCall(request, thinkingServer));
+
+  const instance: ServerInstance = {
+    server,
+    thinkingServer,
+    close: async () => {
+      instances.delete(instance);
+      const interrupted = await thinkingServer.close();
+      if (interrupted > 0) {
+        logger.error(chalk.blue(`💾 Stored ${interrupted} open session(s) of a closed connection as interrupted`));
+      }
+    },
+  };
+  instances.add(instance);
+  return instance;
+}
+
+/**
+ * Run one tool call against a server's thinking sessions
+ */
+async function handleToolCall(request: CallToolRequest, thinkingServer: SequentialThinkingServer) {
+  try {
+    if (request.params.name === "sequentialthinking") {
+      // Try to extract the query from the arguments if possible
+      // Many LLM clients will include "metadata" in the arguments with query information
+      const args = request.params.arguments as Record<string, any>;
+      const query = args?._metadata?.query || args?._meta?.query || undefined;
+      
+      // Add debug output for tracking requests
+      logger.error(chalk.blue(`🔄 Received sequential thinking request with thought #${args.thoughtNumber}/${args.totalThoughts}`));
+      logger.error(chalk.blue(`🔄 Thought content: ${args.thought.substring(0, 100)}${args.thought.length > 100 ? '...' : ''}`));
+      
+      // Check storage status before processing
+      try {
+        const status = await getStorageBackend().getStatusInfo();
+        logger.error(chalk.blue(`🔍 Current storage status: ${JSON.stringify(status, null, 2)}`));
+      } catch (error: any) {
+        logger.error(chalk.yellow(`⚠️ Error checking Recall status: ${error.message}`));
+      }
+      
+      return await thinkingServer.processThought(request.params.arguments, {
+        query,
+        sessionId: args?.sessionId,
+        labels: { tags: args?.tags ?? undefined, project: args?.project ?? undefined, author: args?.author ?? undefined }
+      });
+    } else if (request.params.name === "recallstatus") {
+      const args = request.params.arguments as Record<string, any>;
+      const flushResult = args?.flushOutbox ? await sessionOutbox.flush() : undefined;
+
+      try {
+        // Check if Recall is initialized
+        logger.error(chalk.blue('🔍 Checking Recall status...'));
+        
+        // Force initialize if needed
+        const storage = getStorageBackend();
+        if (!storage.isInitialized()) {
+          logger.error(chalk.yellow('⚠️ Storage not initialized, reinitializing...'));
+          await storage.initialize();
+        }
+        
+        const bucketInfo = await storage.getStatusInfo();
+        logger.error(chalk.green(`✅ Recall status check succeeded: ${JSON.stringify(bucketInfo, null, 2)}`));
+
+        // Report what the retention policy would remove, without removing anything
+        let retention: Record<string, unknown> | undefined;
+        try {
+          if (getRetentionRules().length > 0) {
+            const plan = await planRetention(storage);
+            retention = {
+              rules: plan.rules,
+              wouldRemove: plan.candidates.length,
+              candidates: plan.candidates.slice(0, 50)
+            };
+          }
+        } catch (error: any) {
+          retention = { error: error.message };
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              recallStatus: {
+                ...bucketInfo,
+                logPrefix: config.RECALL_LOG_PREFIX
+              },
+              outbox: sessionOutbox.getStatus(),
+              ...(retention ? { retention } : {}),
+              ...(flushResult ? { flushResult } : {})
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error checking Recall status: ${error instanceof Error ? error.message : String(error)}`));
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              recallStatus: {
+                backend: config.RECALL_STORAGE_BACKEND,
+                initialized: false,
+                error: error instanceof Error ? error.message : String(error)
+              },
+              outbox: sessionOutbox.getStatus(),
+              ...(flushResult ? { flushResult } : {})
+            }, null, 2)
+          }]
+        };
+      }
+    } else if (request.params.name === "listsessions") {
+      // Implementation for listing sessions
+      try {
+        logger.error(chalk.blue('🔍 Listing all sequential thinking sessions...'));
+        
+        // Force initialize if needed
+        const storage = getStorageBackend();
+        if (!storage.isInitialized()) {
+          logger.error(chalk.yellow('⚠️ Storage not initialized, reinitializing...'));
+          await storage.initialize();
+        }
+        
+        const status = await storage.getStatusInfo();
+        const bucketAddress = status.bucketAddress;
+        
+        const args = request.params.arguments as Record<string, any>;
+        const page = await storage.listSessionObjects({
+          limit: args?.limit,
+          cursor: args?.cursor,
+          order: args?.sort === 'newest' ? 'desc' : 'asc',
+          createdAfter: parseDateArgument(args?.createdAfter, 'createdAfter'),
+          createdBefore: parseDateArgument(args?.createdBefore, 'createdBefore'),
+          keyPrefix: args?.keyPrefix,
+          labels: parseLabelFilter(args),
+        });
+        
+        // Process session objects
+        const sessionObjects = page.objects.map(obj => {
+          // Parse the object key to extract information
+          const fileName = obj.key;
+          const metadata = obj.metadata || {};
+          
+          // Format the created time
+          const formattedTime = metadata.timestamp ? new Date(metadata.timestamp).toLocaleString() : 'Unknown';
+          
+          // Create portal link if requested
+          const includePortalLinks = args?.includePortalLinks;
+          const portalLink = includePortalLinks ? storage.getViewUrl(fileName) : null;
+          
+          return {
+            fileName,
+            createdTime: formattedTime,
+            // Sessions stored before metadata was written on upload report 'Unknown'
+            thoughtCount: metadata.thoughtCount ?? 'Unknown',
+            ...(metadata.sessionId ? { sessionId: metadata.sessionId } : {}),
+            ...(metadata.query ? { query: metadata.query } : {}),
+            ...labelsOf(metadata),
+            ...(metadata.branchCount !== undefined ? { branchCount: metadata.branchCount } : {}),
+            ...(metadata.revisionCount !== undefined ? { revisionCount: metadata.revisionCount } : {}),
+            ...(metadata.status ? { status: metadata.status } : {}),
+            // A checkpoint of a session still in progress, replaced by the full session when it finishes
+            ...(metadata.status === 'incomplete' ? { incomplete: true } : {}),
+            ...(metadata.encryption ? { encryption: metadata.encryption } : {}),
+            ...(portalLink ? { portalLink } : {})
+          };
+        });
+        
+        logger.error(chalk.green(`✅ Successfully retrieved ${sessionObjects.length} session objects`));
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              sessions: sessionObjects,
+              count: sessionObjects.length,
+              incompleteCount: sessionObjects.filter(session => session.incomplete).length,
+              ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+              bucketAddress,
+              backend: status.backend
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error listing sessions: ${error instanceof Error ? error.message : String(error)}`));
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "getsession") {
+      // Implementation for retrieving a session
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        const sessionKey = args?.key;
+        
+        if (!sessionKey) {
+          throw new Error('Session key is required');
+        }
+        
+        logger.error(chalk.blue(`🔍 Retrieving session file: ${sessionKey}`));
+        
+        // Force initialize if needed
+        const storage = getStorageBackend();
+        if (!storage.isInitialized()) {
+          logger.error(chalk.yellow('⚠️ Storage not initialized, reinitializing...'));
+          await storage.initialize();
+        }
+        
+        // Get the session data
+        const sessionData = await storage.getSessionObject(sessionKey);
+        
+        if (!sessionData) {
+          throw new Error(`Session file "${sessionKey}" not found`);
+        }
+        
+        // Get the portal link
+        const portalLink = storage.getViewUrl(sessionKey);
+        
+        logger.error(chalk.green(`✅ Successfully retrieved session: ${sessionKey}`));
+        
+        const view = args?.view || 'thoughts';
+        if (!['thoughts', 'graph', 'final'].includes(view)) {
+          throw new Error(`Unknown view "${view}"; use thoughts, graph or final`);
+        }
+        
+        let result: Record<string, unknown> = { key: sessionKey, content: sessionData, portalLink };
+        if (view === 'graph') {
+          result = { ...result, graph: buildThoughtGraph(sessionData.thoughts) };
+        } else if (view === 'final') {
+          const graph = buildThoughtGraph(sessionData.thoughts);
+          result = {
+            key: sessionKey,
+            header: sessionData.header,
+            finalPath: graph.finalPath.map(id => graph.nodes[id - 1]),
+            omittedThoughts: graph.nodes.length - graph.finalPath.length,
+            portalLink
+          };
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error retrieving session: ${error instanceof Error ? error.message : String(error)}`));
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "resumesession") {
+      const args = request.params.arguments as Record<string, any>;
+      if (!args?.key) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ error: 'Session key is required', status: 'failed' }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
+      logger.error(chalk.blue(`♻️ Resuming session file: ${args.key}`));
+      return await thinkingServer.resumeSession(args.key, args.sessionId);
+    } else if (request.params.name === "searchsessions") {
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        const query = args?.query;
+
+        if (!query || typeof query !== 'string') {
+          throw new Error('Search query is required');
+        }
+
+        logger.error(chalk.blue(`🔎 Searching sessions for: "${query}"`));
+
+        // Pick up sessions stored since the last search; cached ones are not downloaded again
+        const indexStatus = args?.refresh === false
+          ? undefined
+          : await sessionSearchIndex.refresh(getStorageBackend());
+        const filter = parseLabelFilter(args);
+        const results = await sessionSearchIndex.search(query, args?.limit || 10, filter);
+
+        logger.error(chalk.green(`✅ Found ${results.length} matching session(s)`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              query,
+              ...(Object.keys(filter).length > 0 ? { filter } : {}),
+              results,
+              count: results.length,
+              ...(indexStatus ? { index: indexStatus } : {})
+            }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error(chalk.red(`❌ Error listing sessions: ${error instanceof Error ? error.message : String(error)}`));
-        
+        logger.error(chalk.red(`❌ Error searching sessions: ${error instanceof Error ? error.message : String(error)}`));
+
         return {
           content: [{
             type: "text",
@@ -628,50 +1009,380 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           isError: true
         };
       }
-    } else if (request.params.name === "getsession") {
-      // Implementation for retrieving a session
+    } else if (request.params.name === "exportsession") {
       try {
         const args = request.params.arguments as Record<string, any>;
-        const sessionKey = args?.key;
-        
-        if (!sessionKey) {
+        const format: ExportFormat = args?.format || 'markdown';
+        if (!EXPORT_FORMATS.includes(format)) {
+          throw new Error(`Unknown format "${format}"; use ${EXPORT_FORMATS.join(', ')}`);
+        }
+        if (!args?.key === !args?.sessionId) {
+          throw new Error('Pass either key (stored session) or sessionId (live session)');
+        }
+
+        let session: RenderableSession;
+        if (args.key) {
+          const sessionData = await getStorageBackend().getSessionObject(args.key);
+          if (!sessionData) {
+            throw new Error(`Session file "${args.key}" not found`);
+          }
+          session = {
+            title: args.key,
+            sessionId: sessionData.header.sessionId,
+            query: sessionData.header.query,
+            createdAt: sessionData.createdAt,
+            thoughts: sessionData.thoughts,
+          };
+        } else {
+          const live = thinkingServer.getActiveSession(args.sessionId);
+          if (!live) {
+            throw new Error(`Live session "${args.sessionId}" is not open`);
+          }
+          session = { title: live.sessionId, sessionId: live.sessionId, query: live.query, createdAt: live.startedAt, thoughts: live.thoughtHistory };
+        }
+
+        const rendering = renderSession(session, format);
+        logger.error(chalk.blue(`📤 Exported ${session.title} as ${format} (${rendering.length} chars)`));
+
+        if (!args.outputPath) {
+          // Return the rendering itself so it can be pasted as-is
+          return {
+            content: [{
+              type: "text",
+              text: rendering
+            }]
+          };
+        }
+
+        const path = await resolveExportPath(args.outputPath);
+        await writeFile(path, rendering, { encoding: 'utf8', flag: args.overwrite ? 'w' : 'wx' });
+        logger.error(chalk.green(`✅ Wrote ${format} export to ${path}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              path,
+              format,
+              bytes: Buffer.byteLength(rendering, 'utf8'),
+              thoughtCount: session.thoughts.length
+            }, null, 2)
+          }]
+        };
+      } catch (error: any) {
+        const message = error.code === 'EEXIST'
+          ? `${error.path} already exists; pass overwrite: true to replace it`
+          : error.message;
+        logger.error(chalk.red(`❌ Error exporting session: ${message}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: message,
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "comparesessions") {
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        if (!args?.keyA || !args?.keyB) {
+          throw new Error('Both keyA and keyB are required');
+        }
+
+        const storage = getStorageBackend();
+        const [sessionA, sessionB] = await Promise.all([storage.getSessionObject(args.keyA), storage.getSessionObject(args.keyB)]);
+        if (!sessionA) {
+          throw new Error(`Session file "${args.keyA}" not found`);
+        }
+        if (!sessionB) {
+          throw new Error(`Session file "${args.keyB}" not found`);
+        }
+
+        logger.error(chalk.blue(`⚖️ Comparing ${args.keyA} with ${args.keyB}`));
+        const comparison = compareSessions(sessionA, sessionB);
+        const thoughts = args.includeIdentical
+          ? comparison.thoughts
+          : comparison.thoughts.filter(thought => thought.status !== 'identical');
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              ...comparison,
+              thoughts,
+              identicalThoughts: comparison.thoughts.filter(thought => thought.status === 'identical').length
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error comparing sessions: ${error instanceof Error ? error.message : String(error)}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "deletesession" || request.params.name === "archivesession") {
+      const action = request.params.name === "deletesession" ? 'delete' : 'archive';
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        if (!args?.key) {
           throw new Error('Session key is required');
         }
-        
-        logger.error(chalk.blue(`🔍 Retrieving session file: ${sessionKey}`));
-        
-        // Force initialize if needed
-        if (!recallIntegration.isInitialized()) {
-          logger.error(chalk.yellow('⚠️ Recall not initialized, reinitializing...'));
-          await recallIntegration.initializeBucket();
+        if (args.confirm !== true) {
+          throw new Error(`Refusing to ${action} "${args.key}" without confirm: true`);
         }
-        
-        // Get the session data
-        const sessionData = await recallIntegration.getSessionObject(sessionKey);
-        
-        if (!sessionData) {
-          throw new Error(`Session file "${sessionKey}" not found`);
+
+        const storage = getStorageBackend();
+        let archivedKey: string | undefined;
+        if (action === 'delete') {
+          await deleteSession(storage, args.key);
+        } else {
+          archivedKey = await archiveSession(storage, args.key);
         }
-        
-        // Get status for portal link
-        const status = await recallIntegration.getStatusInfo();
-        const portalLink = `https://portal.recall.network/buckets/${status.bucketAddress}?path=${sessionKey}`;
-        
-        logger.error(chalk.green(`✅ Successfully retrieved session: ${sessionKey}`));
-        
+
         return {
           content: [{
             type: "text",
             text: JSON.stringify({
-              key: sessionKey,
-              content: sessionData,
-              portalLink
+              key: args.key,
+              ...(archivedKey ? { archivedKey } : {}),
+              status: action === 'delete' ? 'deleted' : 'archived'
             }, null, 2)
           }]
         };
       } catch (error) {
-        logger.error(chalk.red(`❌ Error retrieving session: ${error instanceof Error ? error.message : String(error)}`));
-        
+        logger.error(chalk.red(`❌ Error trying to ${action} session: ${error instanceof Error ? error.message : String(error)}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "applyretention") {
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        const dryRun = args?.dryRun !== false;
+        if (!dryRun && args?.confirm !== true) {
+          throw new Error('Refusing to apply the retention policy without confirm: true; run with dryRun first to review it');
+        }
+        if (getRetentionRules().length === 0) {
+          throw new Error('No retention policy configured; set RECALL_RETENTION_RULES');
+        }
+
+        const storage = getStorageBackend();
+        const plan = await planRetention(storage);
+        logger.error(chalk.blue(`🧹 Retention policy matches ${plan.candidates.length} session(s)${dryRun ? ' (dry run)' : ''}`));
+        const result = dryRun ? undefined : await applyRetention(storage, plan);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              dryRun,
+              ...plan,
+              ...(result ? { result } : {})
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error applying retention policy: ${error instanceof Error ? error.message : String(error)}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "verifysession") {
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        if (!args?.key) {
+          throw new Error('Session key is required');
+        }
+
+        const verification = await verifyStoredSession(getStorageBackend(), args.key, args.expectedSigner);
+        logger.error(chalk.blue(`🔏 Verified ${args.key}: ${verification.valid ? 'intact' : verification.problems.join('; ')}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(verification, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error verifying session: ${error instanceof Error ? error.message : String(error)}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "sessionstats") {
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        const filter = {
+          createdAfter: parseDateArgument(args?.createdAfter, 'createdAfter'),
+          createdBefore: parseDateArgument(args?.createdBefore, 'createdBefore'),
+          labels: parseLabelFilter(args),
+          includeIncomplete: args?.includeIncomplete === true
+        };
+
+        const { report, cache } = await sessionStatsCache.compute(getStorageBackend(), filter);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                filter: {
+                  ...(args?.createdAfter ? { createdAfter: args.createdAfter } : {}),
+                  ...(args?.createdBefore ? { createdBefore: args.createdBefore } : {}),
+                  ...filter.labels,
+                  includeIncomplete: filter.includeIncomplete
+                },
+                ...report,
+                cache
+              }, null, 2)
+            },
+            {
+              type: "text",
+              text: summarizeStats(report)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error computing session stats: ${error instanceof Error ? error.message : String(error)}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "tagsession") {
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        if (!args?.key) {
+          throw new Error('Session key is required');
+        }
+
+        const { previous, labels } = await relabelSession(getStorageBackend(), args.key, {
+          tags: args.tags ?? undefined,
+          addTags: args.addTags ?? undefined,
+          removeTags: args.removeTags ?? undefined,
+          project: args.project ?? undefined,
+          author: args.author ?? undefined
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              key: args.key,
+              ...labels,
+              previous,
+              status: 'updated'
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error relabeling session: ${error instanceof Error ? error.message : String(error)}`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: error instanceof Error ? error.message : String(error),
+              status: 'failed'
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+    } else if (request.params.name === "previewscrub") {
+      try {
+        const args = request.params.arguments as Record<string, any>;
+        if (typeof args?.text !== 'string' && !args?.sessionId) {
+          throw new Error('Either text or sessionId is required');
+        }
+
+        const rules = describeScrubRules();
+        let preview: Record<string, unknown>;
+        let redactionCount: number;
+        if (typeof args.text === 'string') {
+          const { text, redactions } = scrubText(args.text);
+          redactionCount = redactions.length;
+          preview = { ...summarizeRedactions(redactions), redactions, scrubbed: text };
+        } else {
+          const session = thinkingServer.getActiveSession(args.sessionId);
+          if (!session) {
+            throw new Error(`No open session with ID "${args.sessionId}"`);
+          }
+          const { record, redactions } = scrubSession(buildSessionRecord(session.thoughtHistory, { query: session.query }));
+          redactionCount = redactions.length;
+          // Only the parts the scrubber changed
+          const changed = new Set(redactions.map(redaction => redaction.thoughtNumber));
+          preview = {
+            sessionId: args.sessionId,
+            ...record.header.scrubbing,
+            redactions,
+            ...(redactions.some(redaction => redaction.field === 'query') ? { query: record.header.query } : {}),
+            thoughts: record.thoughts
+              .filter(thought => changed.has(thought.thoughtNumber))
+              .map(thought => ({ thoughtNumber: thought.thoughtNumber, ...(thought.branchId ? { branchId: thought.branchId } : {}), thought: thought.thought }))
+          };
+        }
+
+        logger.error(chalk.blue(`🧽 Scrub preview: ${redactionCount} redaction(s)`));
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              dryRun: true,
+              enabled: rules.enabled,
+              ...preview,
+              activeRules: rules.rules.map(rule => rule.name),
+              allowlist: rules.allowlist
+            }, null, 2)
+          }]
+        };
+      } catch (error) {
+        logger.error(chalk.red(`❌ Error previewing scrubbing: ${error instanceof Error ? error.message : String(error)}`));
+
         return {
           content: [{
             type: "text",
@@ -683,6 +1394,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           isError: true
         };
       }
+    } else if (request.params.name === "listactivesessions") {
+      const sessions = thinkingServer.listActiveSessions();
+      logger.error(chalk.blue(`🔍 Listing ${sessions.length} open thinking session(s)`));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            sessions,
+            count: sessions.length
+          }, null, 2)
+        }]
+      };
     }
 
     return {
@@ -704,26 +1428,102 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true
     };
   }
-});
+}
+
+let shutdownStarted = false;
+let httpServer: HttpServer | undefined;
+
+/**
+ * Store open sessions as interrupted, let in-flight uploads settle and release
+ * the secure key buffers, then exit. Gives up after RECALL_SHUTDOWN_TIMEOUT_MS;
+ * anything still unsent is in the outbox and replays on the next start.
+ */
+async function shutdown(reason: string, exitCode = 0): Promise<void> {
+  if (shutdownStarted) return;
+  shutdownStarted = true;
+  logger.error(chalk.yellow(`⏹️ Shutting down (${reason})...`));
+
+  let deadline: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>(resolve => {
+    deadline = setTimeout(() => resolve(true), config.RECALL_SHUTDOWN_TIMEOUT_MS);
+  });
+
+  const flush = async (): Promise<boolean> => {
+    const counts = await Promise.all([...instances].map(instance => instance.thinkingServer.interruptOpenSessions()));
+    const interrupted = counts.reduce((sum, count) => sum + count, 0);
+    if (interrupted > 0) {
+      logger.error(chalk.blue(`💾 Stored ${interrupted} open session(s) as interrupted`));
+    }
+    await sessionOutbox.drain();
+    await getStorageBackend().waitForPendingWrites();
+    return false;
+  };
+
+  try {
+    if (await Promise.race([flush(), timedOut])) {
+      logger.error(chalk.yellow(`⚠️ Shutdown deadline of ${config.RECALL_SHUTDOWN_TIMEOUT_MS}ms reached; unsent sessions stay in the outbox`));
+    }
+  } catch (error: any) {
+    logger.error(chalk.red(`❌ Error during shutdown: ${error.message}`));
+  } finally {
+    clearTimeout(deadline);
+  }
+
+  releaseSecrets();
+  httpServer?.closeAllConnections();
+  httpServer?.close();
+  await Promise.all([...instances].map(instance => instance.server.close().catch(() => undefined)));
+  logger.error(chalk.green('✅ Shutdown complete'));
+  process.exit(exitCode);
+}
 
 async function runServer() {
-  const transport = new StdioServerTransport();
-  
-  // Initialize Recall integration before starting the server
+  const argv = yargs(hideBin(process.argv))
+    .option('transport', { choices: ['stdio', 'http'] as const, default: config.RECALL_TRANSPORT, description: 'Serve one client over stdio, or several over HTTP' })
+    .option('host', { type: 'string', default: config.RECALL_HTTP_HOST, description: 'Address the HTTP transport binds to' })
+    .option('port', { type: 'number', default: config.RECALL_HTTP_PORT, description: 'Port the HTTP transport listens on' })
+    .strict()
+    .version(SERVER_VERSION)
+    .parseSync();
+
+  // Fails startup rather than every store
+  checkScrubRules();
+
+  // Initialize the storage backend before starting the server
   try {
-    logger.error(chalk.blue("🔄 Initializing Recall integration before server start..."));
-    await recallIntegration.initializeBucket();
-    const status = await recallIntegration.getStatusInfo();
-    logger.error(chalk.green(`✅ Recall initialized successfully: ${JSON.stringify(status, null, 2)}`));
+    logger.error(chalk.blue(`🔄 Initializing ${config.RECALL_STORAGE_BACKEND} storage before server start...`));
+    const storage = getStorageBackend();
+    await storage.initialize();
+    const status = await storage.getStatusInfo();
+    logger.error(chalk.green(`✅ Storage initialized successfully: ${JSON.stringify(status, null, 2)}`));
   } catch (error: any) {
-    logger.error(chalk.yellow(`⚠️ Failed to initialize Recall before server start: ${error.message}`));
+    logger.error(chalk.yellow(`⚠️ Failed to initialize storage before server start: ${error.message}`));
+  }
+
+  // Replay any sessions left in the outbox by a previous run
+  await sessionOutbox.start();
+
+  for (const signal of ['SIGINT', 'SIGTERM', 'SIGHUP'] as const) {
+    process.once(signal, () => { void shutdown(signal); });
   }
-  
-  await server.connect(transport);
+
+  if (argv.transport === 'http') {
+    // Clients come and go; the process runs until it is signalled
+    httpServer = await startHttpTransport({ host: argv.host, port: argv.port, allowedHosts: config.RECALL_HTTP_ALLOWED_HOSTS, createServer });
+    logger.error(`Sequential Thinking MCP Server running on http://${argv.host}:${argv.port}${SSE_PATH}`);
+    return;
+  }
+
+  // The stdio transport does not notice the client going away, so watch stdin as well
+  const { server } = createServer();
+  server.onclose = () => { void shutdown('transport closed'); };
+  process.stdin.once('end', () => { void shutdown('client disconnected'); });
+
+  await server.connect(new StdioServerTransport());
   logger.error("Sequential Thinking MCP Server running on stdio");
 }
 
 runServer().catch((error) => {
-  logger.error("Fatal error running server:", error);
+  logger.error("Fatal error running server:", error instanceof Error ? error.message : error);
   process.exit(1);
 });
@@ -0,0 +1,350 @@
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import chalk from 'chalk';
+import { config, logger } from './config.js';
+import { createSessionKey } from './session-format.js';
+import { openLocalFile, sealLocalFile } from './session-crypto.js';
+import { getStorageBackend } from './storage.js';
+import { sessionEvents } from './session-events.js';
+import { SessionQueryInfo, StoreSessionResult, ThoughtData } from './storage-backend.js';
+
+// A session (finalized, or a checkpoint of one in progress) waiting to be uploaded
+export interface OutboxEntry {
+  id: string;
+  key: string;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  thoughts: ThoughtData[];
+  queryInfo?: SessionQueryInfo;
+}
+
+export interface OutboxStatus {
+  directory: string;
+  pending: number;
+  entries: {
+    id: string;
+    key: string;
+    sessionId?: string;
+    thoughtCount: number;
+    attempts: number;
+    createdAt: string;
+    nextAttemptAt: string;
+    lastError?: string;
+  }[];
+}
+
+export interface OutboxSubmitResult extends StoreSessionResult {
+  queued: boolean;
+}
+
+/**
+ * Write-ahead outbox for sessions and checkpoints.
+ * Every session is written to local disk before it reaches the storage
+ * backend, and only removed once the upload succeeds. Failed uploads are retried in the background with
+ * exponential backoff, and pending entries are replayed on startup.
+ */
+class SessionOutbox {
+  private directory = config.RECALL_OUTBOX_DIR;
+  private entries = new Map<string, OutboxEntry>();
+  private inFlight = new Set<string>();
+  // Uploads to the same key run one after another, so a checkpoint never lands after the final session
+  private keyQueues = new Map<string, Promise<unknown>>();
+  // In-flight entries replaced by a newer version; they are dropped instead of retried
+  private superseded = new Set<string>();
+  private retryTimer: NodeJS.Timeout | null = null;
+  private started = false;
+
+  /**
+   * Load pending entries from disk and schedule their delivery
+   */
+  public async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      const files = (await readdir(this.directory)).filter(file => file.endsWith('.json'));
+
+      for (const file of files) {
+        try {
+          const entry = openLocalFile<OutboxEntry>(await readFile(join(this.directory, file), 'utf8'));
+          // Replay immediately on startup rather than waiting out the old backoff
+          entry.nextAttemptAt = Date.now();
+          this.entries.set(entry.id, entry);
+        } catch (error: any) {
+          logger.error(chalk.yellow(`⚠️ Skipping unreadable outbox entry ${file}: ${error.message}`));
+        }
+      }
+
+      if (this.entries.size > 0) {
+        logger.error(chalk.blue(`📮 Replaying ${this.entries.size} pending session(s) from outbox at ${this.directory}`));
+      }
+      this.scheduleRetry();
+    } catch (error: any) {
+      logger.error(chalk.red(`❌ Error starting session outbox: ${error.message}`));
+    }
+  }
+
+  /**
+   * Persist a session to the outbox, then attempt to upload it once.
+   * If the upload fails the entry stays on disk and is retried in the background.
+   * @param options.key Store under this key, superseding any pending upload to it (checkpoints reuse one key)
+   */
+  public async submit(thoughts: ThoughtData[], queryInfo?: SessionQueryInfo, options?: { key?: string }): Promise<OutboxSubmitResult> {
+    if (options?.key) {
+      await this.supersede(options.key);
+    }
+
+    const entry: OutboxEntry = {
+      id: `${Date.now()}-${Math.floor(Math.random() * 10000)}`,
+      key: options?.key || createSessionKey(config.RECALL_LOG_PREFIX),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      thoughts,
+      queryInfo,
+    };
+
+    try {
+      await this.persist(entry);
+      this.entries.set(entry.id, entry);
+      logger.error(chalk.blue(`📮 Session ${queryInfo?.sessionId || entry.id} written to outbox as ${entry.key}`));
+    } catch (error: any) {
+      // Without a durable copy we can still try the upload directly
+      logger.error(chalk.red(`❌ Could not write session to outbox: ${error.message}`));
+      const result = await this.upload(entry).catch(() => undefined);
+      return { ...(result || { success: false, key: entry.key }), queued: false };
+    }
+
+    const result = await this.deliver(entry);
+    return {
+      txHash: result?.txHash,
+      success: !!result?.success,
+      key: entry.key,
+      queued: !result?.success,
+    };
+  }
+
+  /**
+   * Attempt delivery of every pending entry now, ignoring backoff
+   */
+  public async flush(): Promise<{ delivered: number, failed: number, remaining: number }> {
+    let delivered = 0;
+    let failed = 0;
+
+    for (const entry of [...this.entries.values()]) {
+      const result = await this.deliver(entry);
+      if (result?.success) {
+        delivered++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { delivered, failed, remaining: this.entries.size };
+  }
+
+  /**
+   * Wait for deliveries already under way. Entries that still fail stay on disk for the next start.
+   */
+  public async drain(): Promise<void> {
+    while (this.keyQueues.size > 0) {
+      await Promise.all([...this.keyQueues.values()]);
+    }
+  }
+
+  /**
+   * Describe the pending entries in the outbox
+   */
+  public getStatus(): OutboxStatus {
+    return this.describe([...this.entries.values()]);
+  }
+
+  /**
+   * Describe the entries on disk without starting the outbox, so nothing is uploaded.
+   * For processes that only inspect the outbox, such as the CLI.
+   */
+  public async inspect(): Promise<OutboxStatus> {
+    if (this.started) return this.getStatus();
+
+    const entries: OutboxEntry[] = [];
+    const files = await readdir(this.directory).catch(() => [] as string[]);
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        entries.push(openLocalFile<OutboxEntry>(await readFile(join(this.directory, file), 'utf8')));
+      } catch (error: any) {
+        logger.error(chalk.yellow(`⚠️ Skipping unreadable outbox entry ${file}: ${error.message}`));
+      }
+    }
+    return this.describe(entries);
+  }
+
+  private describe(entries: OutboxEntry[]): OutboxStatus {
+    return {
+      directory: this.directory,
+      pending: entries.length,
+      entries: entries.map(entry => ({
+        id: entry.id,
+        key: entry.key,
+        sessionId: entry.queryInfo?.sessionId,
+        thoughtCount: entry.thoughts.length,
+        attempts: entry.attempts,
+        createdAt: entry.createdAt,
+        nextAttemptAt: new Date(entry.nextAttemptAt).toISOString(),
+        ...(entry.lastError ? { lastError: entry.lastError } : {}),
+      })),
+    };
+  }
+
+  /**
+   * Drop pending uploads to a key that a newer version of the session is about to replace
+   */
+  private async supersede(key: string): Promise<void> {
+    for (const entry of [...this.entries.values()]) {
+      if (entry.key !== key) continue;
+
+      if (this.inFlight.has(entry.id)) {
+        this.superseded.add(entry.id);
+      } else {
+        await this.remove(entry);
+      }
+      logger.error(chalk.blue(`📮 Outbox entry ${entry.id} superseded by a newer version of ${key}`));
+    }
+  }
+
+  private async remove(entry: OutboxEntry): Promise<void> {
+    this.entries.delete(entry.id);
+    this.superseded.delete(entry.id);
+    await unlink(this.entryPath(entry.id)).catch(() => undefined);
+  }
+
+  private async upload(entry: OutboxEntry): Promise<StoreSessionResult | undefined> {
+    return getStorageBackend().storeSession(entry.thoughts, entry.queryInfo, { key: entry.key });
+  }
+
+  /**
+   * Upload a single entry, removing it on success or rescheduling it on failure
+   */
+  private async deliver(entry: OutboxEntry): Promise<StoreSessionResult | undefined> {
+    if (this.inFlight.has(entry.id)) {
+      return undefined;
+    }
+    this.inFlight.add(entry.id);
+
+    // Wait for any earlier upload to the same key
+    const previous = this.keyQueues.get(entry.key);
+    let release = () => {};
+    const current = new Promise<void>(resolve => { release = resolve; });
+    this.keyQueues.set(entry.key, current);
+
+    try {
+      await previous;
+      if (this.superseded.has(entry.id)) {
+        await this.remove(entry);
+        return undefined;
+      }
+
+      let result: StoreSessionResult | undefined;
+      let failure = 'Storage returned no result';
+
+      try {
+        result = await this.upload(entry);
+        if (result && !result.success) {
+          failure = 'Storage reported an unsuccessful upload';
+        }
+      } catch (error: any) {
+        failure = error.message;
+      }
+
+      if (result?.success) {
+        await this.remove(entry);
+        logger.error(chalk.green(`📮 Delivered outbox entry ${entry.id} as ${entry.key}`));
+        sessionEvents.emit('stored', entry.key);
+        return result;
+      }
+
+      if (this.superseded.has(entry.id)) {
+        await this.remove(entry);
+        return result;
+      }
+
+      entry.attempts++;
+      entry.lastError = failure;
+      entry.nextAttemptAt = Date.now() + this.backoff(entry.attempts);
+      logger.error(chalk.yellow(`⚠️ Outbox delivery of ${entry.key} failed (attempt ${entry.attempts}): ${failure}. Retrying at ${new Date(entry.nextAttemptAt).toISOString()}`));
+      await this.persist(entry).catch((error: any) => {
+        logger.error(chalk.red(`❌ Could not update outbox entry ${entry.id}: ${error.message}`));
+      });
+      return result;
+    } finally {
+      release();
+      if (this.keyQueues.get(entry.key) === current) {
+        this.keyQueues.delete(entry.key);
+      }
+      this.inFlight.delete(entry.id);
+      this.scheduleRetry();
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at the configured maximum
+   */
+  private backoff(attempts: number): number {
+    const exponential = config.RECALL_OUTBOX_RETRY_BASE_MS * 2 ** Math.min(attempts - 1, 16);
+    const capped = Math.min(exponential, config.RECALL_OUTBOX_RETRY_MAX_MS);
+    return Math.floor(capped * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * Arm a single timer for the earliest due entry
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const waiting = [...this.entries.values()].filter(entry => !this.inFlight.has(entry.id));
+    if (waiting.length === 0) return;
+
+    const nextDue = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.retryDue().catch((error: any) => {
+        logger.error(chalk.red(`❌ Error retrying outbox entries: ${error.message}`));
+      });
+    }, Math.max(0, nextDue - Date.now()));
+    // Never keep the process alive just for retries
+    this.retryTimer.unref();
+  }
+
+  private async retryDue(): Promise<void> {
+    const now = Date.now();
+    for (const entry of [...this.entries.values()]) {
+      if (entry.nextAttemptAt <= now) {
+        await this.deliver(entry);
+      }
+    }
+    this.scheduleRetry();
+  }
+
+  private entryPath(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  /**
+   * Write an entry atomically (temp file + rename) so a crash never leaves a torn file
+   */
+  private async persist(entry: OutboxEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const path = this.entryPath(entry.id);
+    const tempPath = `${path}.tmp`;
+    await writeFile(tempPath, sealLocalFile(entry), { encoding: 'utf8', mode: 0o600 });
+    await rename(tempPath, path);
+  }
+}
+
+// Export a singleton instance
+export const sessionOutbox = new SessionOutbox();
@@ -0,0 +1,168 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+
+// A prompt that drives the sequentialthinking tool through a fixed workflow
+interface ThinkingPrompt extends Prompt {
+  totalThoughts: number;
+  build(args: Record<string, string>): string;
+}
+
+/**
+ * Instructions shared by every workflow, so stored sessions have a consistent shape
+ */
+function toolInstructions(totalThoughts: number, sessionId: string): string {
+  return `Work through this with the \`sequentialthinking\` tool.
+- Start with totalThoughts: ${totalThoughts} and adjust it if the problem turns out larger or smaller.
+- Pass sessionId: "${sessionId}" on every thought so this work stays separate from other tasks.
+- Mark revisions with isRevision and revisesThought; mark alternatives with branchFromThought and a descriptive branchId.
+- Only set nextThoughtNeeded to false once the final answer is reached.`;
+}
+
+function optional(label: string, value: string | undefined): string {
+  return value ? `\n${label}: ${value}` : '';
+}
+
+/**
+ * Turn free text into a stable session identifier
+ */
+function slug(prefix: string, value: string): string {
+  const body = value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return `${prefix}-${body || 'session'}`;
+}
+
+const THINKING_PROMPTS: ThinkingPrompt[] = [
+  {
+    name: 'root-cause-debugging',
+    description: 'Find the root cause of a bug by gathering evidence and testing competing hypotheses as branches',
+    arguments: [
+      { name: 'symptom', description: 'What is going wrong, as observed', required: true },
+      { name: 'context', description: 'Relevant system, recent changes, logs or error messages', required: false },
+      { name: 'suspectedArea', description: 'Component you already suspect, if any', required: false },
+    ],
+    totalThoughts: 8,
+    build(args) {
+      return `Find the root cause of this problem.
+
+Symptom: ${args.symptom}${optional('Context', args.context)}${optional('Suspected area', args.suspectedArea)}
+
+Follow this pattern:
+1. Thoughts 1-2: Restate the symptom precisely and list the evidence you have and what is missing.
+2. Thought 3: List candidate causes. Explore each as its own branch from thought 3 (branchId "hypothesis-1", "hypothesis-2", ...).
+3. In each branch: state what the hypothesis predicts, check it against the evidence, and keep or reject it.
+4. When new evidence contradicts an earlier thought, revise that thought instead of carrying on.
+5. Final thoughts: name the root cause, the evidence that confirms it, and the fix. Distinguish the root cause from its symptoms.
+
+${toolInstructions(this.totalThoughts, slug('debug', args.symptom))}`;
+    },
+  },
+  {
+    name: 'architecture-decision',
+    description: 'Evaluate design options against constraints and record a reasoned architecture decision',
+    arguments: [
+      { name: 'decision', description: 'The decision to be made', required: true },
+      { name: 'options', description: 'Candidate options, comma separated (leave empty to generate them)', required: false },
+      { name: 'constraints', description: 'Requirements, constraints and quality attributes that matter', required: false },
+    ],
+    totalThoughts: 10,
+    build(args) {
+      const options = args.options ? args.options.split(',').map(option => option.trim()).filter(Boolean) : [];
+      const optionText = options.length > 0
+        ? `\nOptions: ${options.map((option, index) => `(${index + 1}) ${option}`).join(', ')}`
+        : '';
+
+      return `Make and document an architecture decision.
+
+Decision: ${args.decision}${optionText}${optional('Constraints', args.constraints)}
+
+Follow this pattern:
+1. Thoughts 1-2: Clarify the forces: requirements, constraints, and which quality attributes matter most.
+2. Thought 3: ${options.length > 0 ? 'Confirm the option list and add any obvious option that is missing.' : 'Generate two to four realistic options.'}
+3. Evaluate each option in its own branch from thought 3 (branchId "option-<short-name>"): benefits, costs, risks, and fit with the constraints.
+4. If evaluating a later option changes your view of an earlier one, revise the earlier thought.
+5. Final thoughts: compare the options side by side, choose one, and state the consequences and what would make you revisit the decision.
+
+${toolInstructions(this.totalThoughts, slug('adr', args.decision))}`;
+    },
+  },
+  {
+    name: 'code-review',
+    description: 'Review a change systematically for correctness, design, and risk, revising findings as understanding grows',
+    arguments: [
+      { name: 'change', description: 'The diff, code, or description of the change to review', required: true },
+      { name: 'focus', description: 'Areas to focus on, e.g. security, performance, API design', required: false },
+    ],
+    totalThoughts: 6,
+    build(args) {
+      return `Review this change.
+${optional('Focus', args.focus)}
+Change:
+${args.change}
+
+Follow this pattern:
+1. Thought 1: Summarize what the change does and what it is trying to achieve.
+2. Thoughts 2-4: Review in passes — correctness and edge cases, then design and readability, then risk (security, performance, compatibility).
+3. When a later pass shows an earlier finding was wrong or unimportant, revise that thought rather than repeating it.
+4. If a finding has two plausible fixes, branch from it (branchId "fix-<topic>") and weigh them.
+5. Final thought: list the findings by severity (blocking, should fix, nit) with a suggested fix for each, and give an overall verdict.
+
+${toolInstructions(this.totalThoughts, slug('review', args.focus || args.change.slice(0, 40)))}`;
+    },
+  },
+  {
+    name: 'hypothesis-test-loop',
+    description: 'Answer a question by iterating hypothesis, prediction, test and revision until the evidence is conclusive',
+    arguments: [
+      { name: 'question', description: 'The question to answer', required: true },
+      { name: 'evidence', description: 'Data, observations or results already available', required: false },
+    ],
+    totalThoughts: 6,
+    build(args) {
+      return `Answer this question with an explicit hypothesis-test loop.
+
+Question: ${args.question}${optional('Evidence so far', args.evidence)}
+
+Follow this loop, one step per thought:
+1. Hypothesis: state one falsifiable hypothesis.
+2. Prediction: what should be true if the hypothesis holds, and what would refute it.
+3. Test: check the prediction against the evidence or reasoning available.
+4. Update: if the test fails, revise the hypothesis thought (isRevision, revisesThought) and loop again. Set needsMoreThoughts when another round is needed.
+Keep rejected hypotheses visible as revisions. Stop when a hypothesis survives its tests, and finish with the answer and how confident you are.
+
+${toolInstructions(this.totalThoughts, slug('hypothesis', args.question))}`;
+    },
+  },
+];
+
+/**
+ * Prompt definitions as advertised to clients
+ */
+export function listThinkingPrompts(): Prompt[] {
+  return THINKING_PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+/**
+ * Render a prompt with its arguments
+ */
+export function getThinkingPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = THINKING_PROMPTS.find(candidate => candidate.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const missing = (prompt.arguments || [])
+    .filter(argument => argument.required && !args[argument.name]?.trim())
+    .map(argument => argument.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for ${name}: ${missing.join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{
+      role: 'user',
+      content: {
+        type: 'text',
+        text: prompt.build(args),
+      },
+    }],
+  };
+}
@@ -3,46 +3,58 @@ import { ChainName, getChain, testnet } from '@recallnet/chains';
 import { Address, Hex } from 'viem';
 import chalk from 'chalk';
 import { config, getPrivateKey, logger } from './config.js';
-
-// Interface for the thought data
-interface ThoughtData {
-  thought: string;
-  thoughtNumber: number;
-  totalThoughts: number;
-  isRevision?: boolean;
-  revisesThought?: number;
-  branchFromThought?: number;
-  branchId?: string;
-  needsMoreThoughts?: boolean;
-  nextThoughtNeeded: boolean;
-}
-
-export interface RecallStatus {
-  initialized: boolean;
+import {
+  SessionListOptions,
+  SessionListPage,
+  SessionMetadata,
+  SessionObjectInfo,
+  SessionQueryInfo,
+  StorageBackend,
+  StorageStatus,
+  StoreSessionResult,
+  ThoughtData,
+} from './storage-backend.js';
+import {
+  buildSessionRecord,
+  createSessionKey,
+  inCreatedRange,
+  listLimit,
+  pageSessionObjects,
+  parseSessionJSONL,
+  parseSessionMetadata,
+  serializeSessionJSONL,
+  sessionMetadata,
+  SessionRecord,
+  StoredSession,
+  timestampFromKey,
+} from './session-format.js';
+import { openSessionContent, sealSessionContent } from './session-crypto.js';
+import { addSessionIntegrity, SessionSigner } from './session-integrity.js';
+import { scrubSessionForStorage } from './content-scrubber.js';
+import { matchesLabels } from './session-labels.js';
+
+export interface RecallStatus extends StorageStatus {
   bucketAddress: string | null;
   bucketAlias: string;
-  logPrefix: string;
-  pendingThoughts: number;
 }
 
 // Interface for the bucket objects returned by Recall
-export interface RecallObject {
-  key: string;
-  size: number;
-  metadata?: {
-    timestamp?: number;
-    thoughtCount?: number;
-    [key: string]: any;
-  };
-}
+export type RecallObject = SessionObjectInfo;
 
-class RecallIntegration {
+// Objects fetched per bucket query when listing everything
+const QUERY_PAGE_SIZE = 100;
+
+export class RecallIntegration implements StorageBackend {
+  public readonly name = 'recall';
   private client: RecallClient;
+  private wallet: ReturnType<typeof walletClientFromPrivateKey>;
   private bucketAddress: Address | null = null;
   private initialized = false;
   private bucketAlias = config.RECALL_BUCKET_ALIAS;
   private logPrefix = config.RECALL_LOG_PREFIX;
-  private currentSessionThoughts: (ThoughtData & { timestamp: number, storedAt: string })[] = [];
+  private currentSession: SessionRecord | null = null;
+  // bucketManager().add calls that have not settled; they may outlive their timeout
+  private pendingWrites = new Set<Promise<unknown>>();
   private static instance: RecallIntegration;
 
   private constructor() {
@@ -64,6 +76,7 @@ class RecallIntegration {
       // We don't need to overwrite the privateKey variable since it's a constant
       // and will be garbage collected once this function exits
       
+      this.wallet = wallet;
       this.client = new RecallClient({ walletClient: wallet });
       logger.error(chalk.green('📡 Recall client initialized successfully'));
     } catch (error: any) {
@@ -79,6 +92,25 @@ class RecallIntegration {
     return RecallIntegration.instance;
   }
 
+  /**
+   * Address of the wallet that signs and pays for stored sessions
+   */
+  public getSignerAddress(): Address | undefined {
+    return this.wallet.account?.address;
+  }
+
+  /**
+   * Sign a session's root hash with the wallet (EIP-191)
+   */
+  private signer: SessionSigner = async rootHash => {
+    const account = this.wallet.account;
+    if (!account) {
+      throw new Error('Recall wallet has no account to sign with');
+    }
+    const signature = await this.wallet.signMessage({ account, message: { raw: rootHash } });
+    return { signature, address: account.address };
+  };
+
   /**
    * Protect against accidental exposure of environment variables or sensitive data
    * This method will throw an error if called
@@ -121,6 +153,10 @@ class RecallIntegration {
     }
   }
 
+  public async initialize(): Promise<void> {
+    await this.initializeBucket();
+  }
+
   /**
    * Initialize bucket (must be called before any operations)
    * This is needed because we can't make constructor async
@@ -194,55 +230,48 @@ class RecallIntegration {
   }
 
   /**
-   * Store the current session's thoughts to Recall as a single JSONL file
+   * Store a session's thoughts to Recall as a single JSONL file
    * Each thought is a separate line in the JSONL file
+   * @param objectKey Optional key to store under (generated from the current time if omitted)
    * @returns The transaction result or undefined if operation failed
    */
-  private async storeSessionJSONL(): Promise<{ txHash?: string, success: boolean, key: string } | undefined> {
+  private async storeSessionJSONL(record: SessionRecord, objectKey?: string): Promise<StoreSessionResult | undefined> {
     await this.ensureInitialized();
     
-    if (this.currentSessionThoughts.length === 0) {
+    if (record.thoughts.length === 0) {
       logger.error(chalk.yellow('⚠️ No thoughts to store - returning undefined'));
       return undefined;
     }
 
     try {
-      const timestamp = Date.now();
-      const key = `${this.logPrefix}${timestamp}-session.jsonl`;
+      const key = objectKey || createSessionKey(this.logPrefix);
       
       // Log the current thoughts for debugging
       logger.error(chalk.blue(`📦 Current thoughts in memory:`));
-      this.currentSessionThoughts.forEach((thought, index) => {
+      record.thoughts.forEach((thought, index) => {
         logger.error(chalk.blue(`   Thought ${index + 1}: ${JSON.stringify(thought)}`));
       });
       
-      // Validate and ensure all thoughts have the required fields
-      const validatedThoughts = this.currentSessionThoughts.map((thought, index) => {
-        if (!thought.thought) {
-          logger.error(chalk.yellow(`⚠️ Missing thought content for thought ${index + 1}, using placeholder`));
-          return {
-            ...thought,
-            thought: `Thought ${index + 1} (content missing)`,
-          };
-        }
-        return thought;
-      });
-      
-      // Convert thoughts to JSONL format (one JSON object per line)
-      const jsonlData = validatedThoughts.map(thought => JSON.stringify(thought)).join('\n');
+      // Chain and sign the plaintext, so the signature survives encryption and decryption
+      const signed = await addSessionIntegrity(record, this.signer);
+      const { content: jsonlData, encryption } = sealSessionContent(serializeSessionJSONL(signed));
       
-      logger.error(chalk.blue(`📦 Storing complete session with ${validatedThoughts.length} thoughts (${jsonlData.length} bytes)`));
+      logger.error(chalk.blue(`📦 Storing complete session with ${record.thoughts.length} thoughts (${jsonlData.length} bytes)`));
       logger.error(chalk.gray(`📄 JSONL data preview: ${jsonlData.substring(0, 200)}...`));
       
       // Add the JSONL data to the bucket with timeout
       let result;
       try {
+        const add = this.client.bucketManager().add(
+          this.bucketAddress as `0x${string}`,
+          key,
+          new TextEncoder().encode(jsonlData),
+          // Checkpoints and retries rewrite the same key
+          { metadata: sessionMetadata(record, encryption), overwrite: true },
+        );
+        this.trackWrite(add);
         result = await this.withTimeout(
-          this.client.bucketManager().add(
-            this.bucketAddress as `0x${string}`,
-            key,
-            new TextEncoder().encode(jsonlData),
-          ),
+          add,
           20000, // 20 second timeout
           'Session storage'
         );
@@ -256,8 +285,10 @@ class RecallIntegration {
       }
       
       // Clear the current session after successful storage
-      const thoughtCount = this.currentSessionThoughts.length;
-      this.currentSessionThoughts = [];
+      const thoughtCount = record.thoughts.length;
+      if (this.currentSession === record) {
+        this.currentSession = null;
+      }
       
       if (result.meta?.tx) {
         logger.error(chalk.green(`✅ Successfully stored session with ${thoughtCount} thoughts to Recall`));
@@ -281,12 +312,25 @@ class RecallIntegration {
     }
   }
 
+  private trackWrite(write: Promise<unknown>): void {
+    const tracked = write.catch(() => undefined).finally(() => this.pendingWrites.delete(tracked));
+    this.pendingWrites.add(tracked);
+  }
+
+  public async waitForPendingWrites(): Promise<void> {
+    if (this.pendingWrites.size > 0) {
+      logger.error(chalk.blue(`⏳ Waiting for ${this.pendingWrites.size} Recall write(s) to settle`));
+    }
+    await Promise.all([...this.pendingWrites]);
+  }
+
   /**
    * Store a complete sequential thinking session to Recall
    * This is an external-facing method that can be called directly
+   * @param options.key Optional object key, so retries of the same session land on the same key
    * @returns The transaction result info or undefined if operation failed
    */
-  public async storeSession(thoughts: ThoughtData[], queryInfo?: { query?: string, result?: string, sessionId?: string }): Promise<{ txHash?: string, success: boolean, key: string } | undefined> {
+  public async storeSession(thoughts: ThoughtData[], queryInfo?: SessionQueryInfo, options?: { key?: string }): Promise<StoreSessionResult | undefined> {
     await this.ensureInitialized();
 
     try {
@@ -301,40 +345,19 @@ class RecallIntegration {
       // Instead, we always replace the current thoughts with the incoming batch
       // This ensures we're only storing the complete batch from the server
       
-      // Add the new thoughts to our memory, validating content
-      const enhancedThoughts = thoughts.map((thought, index) => {
-        if (!thought.thought) {
-          logger.error(chalk.yellow(`⚠️ Missing thought content for incoming thought ${index + 1}, using placeholder`));
-          return {
-            ...thought,
-            thought: `Thought ${index + 1} (content missing)`,
-            timestamp: Date.now(),
-            storedAt: new Date().toISOString(),
-            query: queryInfo?.query || undefined,
-            result: queryInfo?.result || undefined
-          };
-        }
-        
-        return {
-          ...thought,
-          thought: thought.thought, // Explicitly preserve thought content
-          timestamp: Date.now(),
-          storedAt: new Date().toISOString(),
-          query: queryInfo?.query || undefined,
-          result: queryInfo?.result || undefined
-        };
-      });
+      // Add the new thoughts to our memory, validating content and scrubbing secrets before anything is stored
+      const record = scrubSessionForStorage(buildSessionRecord(thoughts, queryInfo));
       
-      logger.error(chalk.blue(`📦 Enhanced thoughts: ${JSON.stringify(enhancedThoughts.slice(0, 1))}`));
+      logger.error(chalk.blue(`📦 Session header: ${JSON.stringify(record.header)}`));
       
       // Clear any previous thoughts and replace with the new batch
       // This ensures we're only storing what the server explicitly sent us
-      logger.error(chalk.blue(`📦 Replacing current thoughts (${this.currentSessionThoughts.length}) with new batch (${enhancedThoughts.length})`));
-      this.currentSessionThoughts = enhancedThoughts;
+      logger.error(chalk.blue(`📦 Replacing current thoughts (${this.currentSession?.thoughts.length ?? 0}) with new batch (${record.thoughts.length})`));
+      this.currentSession = record;
       
       // Store the new session
       logger.error(chalk.blue(`📦 Storing new session with ${thoughts.length} thoughts`));
-      return await this.storeSessionJSONL();
+      return await this.storeSessionJSONL(record, options?.key);
     } catch (error: any) {
       logger.error(chalk.red(`❌ Error storing session to Recall: ${error.message}`));
       return undefined;
@@ -346,14 +369,22 @@ class RecallIntegration {
    */
   async getStatusInfo(): Promise<RecallStatus> {
     return {
+      backend: this.name,
       initialized: this.initialized,
       bucketAddress: this.bucketAddress,
       bucketAlias: this.bucketAlias,
       logPrefix: this.logPrefix,
-      pendingThoughts: this.currentSessionThoughts.length
+      pendingThoughts: this.currentSession?.thoughts.length ?? 0
     };
   }
 
+  /**
+   * Link to the object in the Recall portal
+   */
+  public getViewUrl(key: string): string {
+    return `https://portal.recall.network/buckets/${this.bucketAddress}?path=${key}`;
+  }
+
   /**
    * Lists objects in the bucket
    */
@@ -375,64 +406,125 @@ class RecallIntegration {
     }
   }
 
+  /**
+   * Convert a queried bucket object into session info
+   */
+  private toSessionObjectInfo(obj: { key: string, state?: { size?: bigint, metadata?: Record<string, unknown> } }): SessionObjectInfo {
+    try {
+      // Parse the object key to extract information
+      const key = obj.key as string;
+      
+      // Read the summary written on upload; sessions stored before it existed have none
+      const metadata = parseSessionMetadata(obj.state?.metadata);
+      
+      // If it's a session object, try to extract the timestamp from the filename
+      if (key.includes(this.logPrefix) && metadata.timestamp === undefined) {
+        const timestamp = timestampFromKey(key);
+        if (timestamp) {
+          metadata.timestamp = timestamp;
+        }
+      }
+      
+      return {
+        key,
+        size: obj.state?.size !== undefined ? Number(obj.state.size) : 0,
+        metadata
+      };
+    } catch (error) {
+      // If there's an error processing this object, return with minimal info
+      return {
+        key: obj.key as string,
+        size: 0
+      };
+    }
+  }
+
+  /**
+   * Query one page of objects under a prefix, starting at startKey (inclusive)
+   */
+  private async queryPage(prefix: string, startKey: string, limit: number): Promise<{ objects: SessionObjectInfo[], nextKey?: string }> {
+    const result = await this.client.bucketManager().query(this.bucketAddress as `0x${string}`, {
+      prefix,
+      startKey,
+      limit,
+    });
+
+    return {
+      objects: (result.result?.objects || []).map(obj => this.toSessionObjectInfo(obj)),
+      nextKey: result.result?.nextKey || undefined,
+    };
+  }
+
+  /**
+   * Query every object under a prefix; queries return at most one page, so follow nextKey to the end
+   */
+  private async queryAll(prefix: string): Promise<SessionObjectInfo[]> {
+    const objects: SessionObjectInfo[] = [];
+    let startKey: string | undefined = '';
+    while (startKey !== undefined) {
+      const page = await this.queryPage(prefix, startKey, QUERY_PAGE_SIZE);
+      objects.push(...page.objects);
+      startKey = page.nextKey;
+    }
+    return objects;
+  }
+
   /**
    * Lists all session objects in the bucket with their metadata
    * @returns Array of objects with key and metadata properties
+   * @throws When the bucket cannot be queried
    */
-  async listAllSessionObjects(): Promise<RecallObject[]> {
+  async listAllSessionObjects(): Promise<SessionObjectInfo[]> {
     await this.ensureInitialized();
 
     try {
-      // Query all objects in the bucket
-      const result = await this.client.bucketManager().query(this.bucketAddress as `0x${string}`);
-      
-      if (!result.result?.objects) {
-        return [];
-      }
-      
-      // Filter and map objects to include metadata
-      return result.result.objects.map(obj => {
-        try {
-          // Parse the object key to extract information
-          const key = obj.key as string;
-          
-          // Extract additional metadata
-          const metadata: Record<string, any> = {};
-          
-          // Try to parse metadata from object state/metadata if available
-          if (obj.state && 'metadata' in obj.state) {
-            // Assign any available metadata from the state object
-            const stateMetadata = obj.state.metadata as Record<string, unknown>;
-            if (stateMetadata) {
-              Object.assign(metadata, stateMetadata);
-            }
-          }
-          
-          // If it's a session object, try to extract the timestamp from the filename
-          if (key.includes(this.logPrefix)) {
-            const timestampMatch = key.match(/-(\d+)-/);
-            if (timestampMatch && timestampMatch[1]) {
-              metadata.timestamp = parseInt(timestampMatch[1], 10);
-            }
-          }
-          
-          return {
-            key,
-            size: obj.state && 'size' in obj.state ? Number(obj.state.size) : 0,
-            metadata
-          };
-        } catch (error) {
-          // If there's an error processing this object, return with minimal info
-          return {
-            key: obj.key as string,
-            size: 0
-          };
-        }
-      }).filter(obj => obj.key.includes(this.logPrefix));
+      return await this.queryAll(this.logPrefix);
     } catch (error: any) {
       logger.error(chalk.red(`❌ Error listing session objects: ${error.message}`));
-      return [];
+      throw new Error(`Could not list stored sessions: ${error.message}`);
+    }
+  }
+
+  /**
+   * Lists one page of session objects. Ascending pages are queried directly from
+   * the bucket, starting at the cursor or the earliest key in the date range;
+   * descending pages need the whole range, since Recall only lists keys in ascending order.
+   */
+  async listSessionObjects(options: SessionListOptions = {}): Promise<SessionListPage> {
+    await this.ensureInitialized();
+
+    const prefix = options.keyPrefix ?? this.logPrefix;
+    if (options.order === 'desc') {
+      return pageSessionObjects(await this.queryAll(prefix), options, this.logPrefix);
+    }
+
+    const limit = listLimit(options.limit);
+
+    // Keys embed their creation time right after the log prefix, so the range start is a key too
+    let startKey = options.cursor || '';
+    if (options.createdAfter !== undefined && options.keyPrefix === undefined) {
+      const rangeStart = `${this.logPrefix}${options.createdAfter}`;
+      startKey = startKey > rangeStart ? startKey : rangeStart;
+    }
+
+    const objects: SessionObjectInfo[] = [];
+    let nextKey: string | undefined = startKey;
+    while (nextKey !== undefined && objects.length < limit) {
+      const page = await this.queryPage(prefix, nextKey, limit - objects.length);
+      nextKey = page.nextKey;
+
+      for (const obj of page.objects) {
+        if (options.createdBefore !== undefined && (obj.metadata?.timestamp ?? 0) > options.createdBefore) {
+          // Everything after this key is newer still
+          return { objects };
+        }
+        if (inCreatedRange(obj, options) && matchesLabels(obj.metadata, options.labels ?? {})) {
+          objects.push(obj);
+        }
+      }
     }
+
+    return { objects, ...(nextKey ? { nextCursor: nextKey } : {}) };
   }
 
   /**
@@ -440,51 +532,24 @@ class RecallIntegration {
    * @param key The object key
    * @returns The parsed session object or null if not found
    */
-  async getSessionObject(key: string): Promise<any | null> {
+  async getSessionObject(key: string): Promise<StoredSession | null> {
     await this.ensureInitialized();
 
+    let content: string | null;
     try {
       // Get the raw content
-      const content = await this.getObjectContent(key);
+      content = await this.getObjectContent(key);
       
       if (!content) {
         return null;
       }
-      
-      // Parse the JSONL content
-      try {
-        // Split by lines and parse each line as JSON
-        const lines = content.trim().split('\n');
-        
-        // Parse each line as a separate JSON object
-        const thoughts = lines.map((line, index) => {
-          try {
-            return JSON.parse(line);
-          } catch (parseError) {
-            logger.error(chalk.yellow(`⚠️ Error parsing line ${index + 1} of session: ${parseError}`));
-            return { error: `Invalid JSON at line ${index + 1}`, lineContent: line.substring(0, 50) };
-          }
-        });
-        
-        // Return the array of parsed thoughts
-        return {
-          key,
-          thoughts,
-          thoughtCount: thoughts.length,
-          createdAt: thoughts[0]?.timestamp ? new Date(thoughts[0].timestamp).toISOString() : 'Unknown'
-        };
-      } catch (parseError) {
-        logger.error(chalk.red(`❌ Error parsing session content: ${parseError}`));
-        return {
-          key,
-          error: 'Failed to parse session content',
-          rawContent: content.substring(0, 500) + (content.length > 500 ? '...' : '')
-        };
-      }
     } catch (error: any) {
       logger.error(chalk.red(`❌ Error retrieving session object: ${error.message}`));
       return null;
     }
+
+    // Decrypt if needed; a missing or wrong key is reported rather than treated as not found
+    return parseSessionJSONL(key, openSessionContent(content));
   }
 
   /**
@@ -511,6 +576,111 @@ class RecallIntegration {
     }
   }
 
+  /**
+   * Raw metadata of one object, or null when the key does not exist
+   */
+  private async findObject(key: string): Promise<{ metadata: Record<string, string> } | null> {
+    const result = await this.client.bucketManager().query(this.bucketAddress as `0x${string}`, {
+      prefix: key,
+      startKey: key,
+      limit: 1,
+    });
+    const obj = result.result?.objects?.find(candidate => candidate.key === key);
+    if (!obj) return null;
+
+    const metadata = Object.fromEntries(
+      Object.entries(obj.state?.metadata ?? {}).map(([name, value]) => [name, String(value)])
+    );
+    return { metadata };
+  }
+
+  public async getSessionMetadata(key: string): Promise<SessionMetadata | null> {
+    await this.ensureInitialized();
+
+    const existing = await this.findObject(key);
+    return existing ? parseSessionMetadata(existing.metadata) : null;
+  }
+
+  /**
+   * Objects cannot be edited in place, so the same bytes are added again under the
+   * same key with the new metadata. Encrypted sessions are re-added without being decrypted.
+   */
+  public async updateSessionMetadata(key: string, changes: Record<string, string | null>): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const existing = await this.findObject(key);
+    const content = existing ? await this.getObjectContent(key) : null;
+    if (!existing || content === null) {
+      return false;
+    }
+
+    const metadata = { ...existing.metadata };
+    for (const [name, value] of Object.entries(changes)) {
+      if (value === null) {
+        delete metadata[name];
+      } else {
+        metadata[name] = value;
+      }
+    }
+
+    const add = this.client.bucketManager().add(
+      this.bucketAddress as `0x${string}`,
+      key,
+      new TextEncoder().encode(content),
+      { metadata, overwrite: true },
+    );
+    this.trackWrite(add);
+    await this.withTimeout(add, 20000, 'Metadata update');
+    logger.error(chalk.green(`🏷️ Updated metadata of ${key} in Recall`));
+    return true;
+  }
+
+  /**
+   * Delete an object from the bucket
+   */
+  public async deleteSessionObject(key: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    if (!await this.findObject(key)) {
+      return false;
+    }
+
+    const remove = this.client.bucketManager().delete(this.bucketAddress as `0x${string}`, key);
+    this.trackWrite(remove);
+    await this.withTimeout(remove, 20000, 'Session deletion');
+    logger.error(chalk.green(`🗑️ Deleted ${key} from Recall`));
+    return true;
+  }
+
+  /**
+   * Copy an object's bytes and metadata to a new key, then delete the original.
+   * Encrypted sessions are moved without being decrypted.
+   */
+  public async moveSessionObject(fromKey: string, toKey: string): Promise<boolean> {
+    await this.ensureInitialized();
+
+    const existing = await this.findObject(fromKey);
+    const content = existing ? await this.getObjectContent(fromKey) : null;
+    if (!existing || content === null) {
+      return false;
+    }
+
+    const add = this.client.bucketManager().add(
+      this.bucketAddress as `0x${string}`,
+      toKey,
+      new TextEncoder().encode(content),
+      { metadata: existing.metadata },
+    );
+    this.trackWrite(add);
+    await this.withTimeout(add, 20000, 'Session copy');
+
+    const remove = this.client.bucketManager().delete(this.bucketAddress as `0x${string}`, fromKey);
+    this.trackWrite(remove);
+    await this.withTimeout(remove, 20000, 'Session deletion');
+    logger.error(chalk.green(`📦 Moved ${fromKey} to ${toKey} in Recall`));
+    return true;
+  }
+
   /**
    * Check if the Recall client is initialized
    * @returns True if initialized
@@ -519,6 +689,3 @@ class RecallIntegration {
     return this.initialized;
   }
 }
-
-// Export a singleton instance
-export const recallIntegration = RecallIntegration.getInstance(); 
\ No newline at end of file
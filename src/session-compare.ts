@@ -0,0 +1,287 @@
+import { ThoughtData } from './storage-backend.js';
+import { StoredSession } from './session-format.js';
+import { buildThoughtGraph, MAIN_LINE, ThoughtGraph, ThoughtNode } from './session-graph.js';
+
+// Above this many token pairs a diff is reported as a whole replacement rather than computed
+const MAX_DIFF_CELLS = 4_000_000;
+
+// One run of a word-level diff; text keeps its original whitespace
+export interface TextChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// The same thought (same line and thought number) in both sessions
+export interface ThoughtComparison {
+  line: string;
+  thoughtNumber: number;
+  status: 'identical' | 'changed' | 'only-in-a' | 'only-in-b';
+  // Share of words the two texts have in common, from 0 to 1
+  similarity: number;
+  // Word-level changes from a to b; only for changed thoughts
+  diff?: TextChange[];
+}
+
+// First main-line thought where the sessions stop agreeing
+export interface DivergencePoint {
+  thoughtNumber: number;
+  reason: 'text-differs' | 'a-ended' | 'b-ended';
+}
+
+export interface StructureComparison {
+  branchesOnlyInA: string[];
+  branchesOnlyInB: string[];
+  // Branches in both sessions that start from different thoughts
+  branchOriginsDiffer: { branchId: string, a?: number, b?: number }[];
+  // Revisions as "thought N revises M"
+  revisionsOnlyInA: string[];
+  revisionsOnlyInB: string[];
+}
+
+export interface SessionStats {
+  key: string;
+  sessionId?: string;
+  query?: string;
+  status: string;
+  thoughtCount: number;
+  mainLineLength: number;
+  branchCount: number;
+  revisionCount: number;
+  finalPathLength: number;
+  wordCount: number;
+  averageWordsPerThought: number;
+  durationMs?: number;
+  // Whether the last thought had nextThoughtNeeded false
+  reachedConclusion: boolean;
+  conclusion?: string;
+}
+
+export interface SessionComparison {
+  a: SessionStats;
+  b: SessionStats;
+  // Word overlap across all thoughts, from 0 to 1
+  similarity: number;
+  divergence: DivergencePoint | null;
+  structure: StructureComparison;
+  outcome: {
+    sameStatus: boolean;
+    sameConclusion: boolean;
+    conclusionSimilarity: number;
+    thoughtCountDelta: number;
+    wordCountDelta: number;
+  };
+  thoughts: ThoughtComparison[];
+}
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+const isWord = (token: string): boolean => token.trim().length > 0;
+const wordCount = (text: string): number => tokenize(text).filter(isWord).length;
+const normalize = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
+/**
+ * Word-level diff from a to b, using the longest common subsequence of tokens
+ */
+export function diffText(a: string, b: string): TextChange[] {
+  const from = tokenize(a);
+  const to = tokenize(b);
+
+  if (from.length * to.length > MAX_DIFF_CELLS) {
+    return [
+      ...(a ? [{ type: 'delete' as const, text: a }] : []),
+      ...(b ? [{ type: 'insert' as const, text: b }] : []),
+    ];
+  }
+
+  // lengths[i][j]: LCS length of from[i..] and to[j..]
+  const lengths = Array.from({ length: from.length + 1 }, () => new Uint32Array(to.length + 1));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] = from[i] === to[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: TextChange[] = [];
+  const push = (type: TextChange['type'], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      changes.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      push('equal', from[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('delete', from[i++]);
+    } else {
+      push('insert', to[j++]);
+    }
+  }
+  while (i < from.length) push('delete', from[i++]);
+  while (j < to.length) push('insert', to[j++]);
+
+  return changes;
+}
+
+/**
+ * Share of words two texts have in common (Dice coefficient over the diff)
+ */
+function similarityOf(changes: TextChange[], a: string, b: string): number {
+  const total = wordCount(a) + wordCount(b);
+  if (total === 0) return 1;
+  const common = changes.filter(change => change.type === 'equal').reduce((sum, change) => sum + wordCount(change.text), 0);
+  return Math.round((2 * common / total) * 1000) / 1000;
+}
+
+const nodeKey = (node: ThoughtNode): string => `${node.line}\u0000${node.thoughtNumber}`;
+
+/**
+ * Latest node per line and thought number; a retried number keeps its last text
+ */
+function nodesByKey(graph: ThoughtGraph): Map<string, ThoughtNode> {
+  return new Map(graph.nodes.map(node => [nodeKey(node), node]));
+}
+
+function revisionLabels(thoughts: ThoughtData[]): Set<string> {
+  return new Set(thoughts
+    .filter(thought => thought.isRevision && thought.revisesThought !== undefined)
+    .map(thought => `${thought.branchId ? `${thought.branchId}: ` : ''}thought ${thought.thoughtNumber} revises ${thought.revisesThought}`));
+}
+
+function branchOrigins(thoughts: ThoughtData[]): Map<string, number | undefined> {
+  const origins = new Map<string, number | undefined>();
+  for (const thought of thoughts) {
+    if (thought.branchId && (!origins.has(thought.branchId) || origins.get(thought.branchId) === undefined)) {
+      origins.set(thought.branchId, thought.branchFromThought);
+    }
+  }
+  return origins;
+}
+
+function statsFor(session: StoredSession, graph: ThoughtGraph): SessionStats {
+  const words = session.thoughts.reduce((sum, thought) => sum + wordCount(thought.thought), 0);
+  const last = session.thoughts[session.thoughts.length - 1];
+  const conclusionNode = graph.nodes[graph.finalPath[graph.finalPath.length - 1] - 1];
+  const startedAt = Date.parse(session.header.startedAt);
+  const endedAt = Date.parse(session.header.endedAt);
+
+  return {
+    key: session.key,
+    ...(session.header.sessionId ? { sessionId: session.header.sessionId } : {}),
+    ...(session.header.query ? { query: session.header.query } : {}),
+    status: session.header.status,
+    thoughtCount: session.thoughts.length,
+    mainLineLength: graph.lines.find(line => line.id === MAIN_LINE)?.nodes.length ?? 0,
+    branchCount: graph.lines.filter(line => line.id !== MAIN_LINE).length,
+    revisionCount: session.thoughts.filter(thought => thought.isRevision).length,
+    finalPathLength: graph.finalPath.length,
+    wordCount: words,
+    averageWordsPerThought: session.thoughts.length > 0 ? Math.round(words / session.thoughts.length * 10) / 10 : 0,
+    ...(Number.isFinite(startedAt) && Number.isFinite(endedAt) ? { durationMs: endedAt - startedAt } : {}),
+    reachedConclusion: last?.nextThoughtNeeded === false,
+    ...(conclusionNode ? { conclusion: conclusionNode.thought } : {}),
+  };
+}
+
+/**
+ * First main-line thought, in thought-number order, where the two sessions differ
+ */
+function findDivergence(a: ThoughtGraph, b: ThoughtGraph): DivergencePoint | null {
+  const mainLine = (graph: ThoughtGraph) => [...nodesByKey(graph).values()]
+    .filter(node => node.line === MAIN_LINE)
+    .sort((x, y) => x.thoughtNumber - y.thoughtNumber);
+  const mainA = mainLine(a);
+  const mainB = mainLine(b);
+
+  for (let index = 0; index < Math.max(mainA.length, mainB.length); index++) {
+    const nodeA = mainA[index];
+    const nodeB = mainB[index];
+    if (!nodeA) return { thoughtNumber: nodeB.thoughtNumber, reason: 'a-ended' };
+    if (!nodeB) return { thoughtNumber: nodeA.thoughtNumber, reason: 'b-ended' };
+    if (nodeA.thoughtNumber !== nodeB.thoughtNumber || normalize(nodeA.thought) !== normalize(nodeB.thought)) {
+      return { thoughtNumber: Math.min(nodeA.thoughtNumber, nodeB.thoughtNumber), reason: 'text-differs' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Compare two stored sessions thought by thought. Thoughts are paired by line
+ * (main line or branch ID) and thought number.
+ */
+export function compareSessions(a: StoredSession, b: StoredSession): SessionComparison {
+  const graphA = buildThoughtGraph(a.thoughts);
+  const graphB = buildThoughtGraph(b.thoughts);
+  const nodesA = nodesByKey(graphA);
+  const nodesB = nodesByKey(graphB);
+
+  // Main line first, then branches in order of first appearance, each by thought number
+  const lineOrder = [...new Set([MAIN_LINE, ...graphA.lines.map(line => line.id), ...graphB.lines.map(line => line.id)])];
+  const keys = [...new Set([...nodesA.keys(), ...nodesB.keys()])];
+  const pairs = keys
+    .map(key => ({ nodeA: nodesA.get(key), nodeB: nodesB.get(key) }))
+    .sort((x, y) => {
+      const first = (x.nodeA ?? x.nodeB)!;
+      const second = (y.nodeA ?? y.nodeB)!;
+      return lineOrder.indexOf(first.line) - lineOrder.indexOf(second.line) || first.thoughtNumber - second.thoughtNumber;
+    });
+
+  let commonWords = 0;
+  const thoughts: ThoughtComparison[] = pairs.map(({ nodeA, nodeB }) => {
+    const node = (nodeA ?? nodeB)!;
+    const base = { line: node.line, thoughtNumber: node.thoughtNumber };
+    if (!nodeA) return { ...base, status: 'only-in-b', similarity: 0 };
+    if (!nodeB) return { ...base, status: 'only-in-a', similarity: 0 };
+
+    const diff = diffText(nodeA.thought, nodeB.thought);
+    commonWords += diff.filter(change => change.type === 'equal').reduce((sum, change) => sum + wordCount(change.text), 0);
+    if (diff.every(change => change.type === 'equal')) {
+      return { ...base, status: 'identical', similarity: 1 };
+    }
+    return { ...base, status: 'changed', similarity: similarityOf(diff, nodeA.thought, nodeB.thought), diff };
+  });
+
+  const statsA = statsFor(a, graphA);
+  const statsB = statsFor(b, graphB);
+  const totalWords = statsA.wordCount + statsB.wordCount;
+
+  const originsA = branchOrigins(a.thoughts);
+  const originsB = branchOrigins(b.thoughts);
+  const revisionsA = revisionLabels(a.thoughts);
+  const revisionsB = revisionLabels(b.thoughts);
+
+  const conclusionA = statsA.conclusion ?? '';
+  const conclusionB = statsB.conclusion ?? '';
+
+  return {
+    a: statsA,
+    b: statsB,
+    similarity: totalWords === 0 ? 1 : Math.round((2 * commonWords / totalWords) * 1000) / 1000,
+    divergence: findDivergence(graphA, graphB),
+    structure: {
+      branchesOnlyInA: [...originsA.keys()].filter(id => !originsB.has(id)),
+      branchesOnlyInB: [...originsB.keys()].filter(id => !originsA.has(id)),
+      branchOriginsDiffer: [...originsA.keys()]
+        .filter(id => originsB.has(id) && originsA.get(id) !== originsB.get(id))
+        .map(id => ({ branchId: id, a: originsA.get(id), b: originsB.get(id) })),
+      revisionsOnlyInA: [...revisionsA].filter(label => !revisionsB.has(label)),
+      revisionsOnlyInB: [...revisionsB].filter(label => !revisionsA.has(label)),
+    },
+    outcome: {
+      sameStatus: statsA.status === statsB.status,
+      sameConclusion: normalize(conclusionA) === normalize(conclusionB),
+      conclusionSimilarity: similarityOf(diffText(conclusionA, conclusionB), conclusionA, conclusionB),
+      thoughtCountDelta: statsB.thoughtCount - statsA.thoughtCount,
+      wordCountDelta: statsB.wordCount - statsA.wordCount,
+    },
+    thoughts,
+  };
+}
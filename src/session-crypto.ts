@@ -0,0 +1,117 @@
+import sodium from 'sodium-native';
+import { hasEncryptionKey, isEncryptionKeyReleased, withEncryptionKey } from './config.js';
+
+// Recorded in object metadata and in the envelope itself
+export const ENCRYPTION_SCHEME = 'secretbox-xsalsa20poly1305';
+
+// Stored in place of the JSONL when a session is encrypted; a single JSON line, so it
+// travels through every backend and text API like any other session content
+interface EncryptedEnvelope {
+  type: 'encrypted-session';
+  scheme: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+/**
+ * Whether newly stored sessions will be encrypted
+ */
+export function isEncryptionEnabled(): boolean {
+  return hasEncryptionKey();
+}
+
+/**
+ * Parse content as an encrypted envelope, or return null for plaintext sessions
+ */
+function parseEnvelope(content: string): EncryptedEnvelope | null {
+  if (!content.trimStart().startsWith('{"type":"encrypted-session"')) return null;
+
+  try {
+    const envelope = JSON.parse(content);
+    return envelope?.type === 'encrypted-session' ? envelope : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isEncryptedContent(content: string): boolean {
+  return parseEnvelope(content) !== null;
+}
+
+/**
+ * Encrypt serialized session content when an encryption key is configured
+ * @returns The content to store and the scheme used, if any
+ * @throws When the configured key has already been released on shutdown
+ */
+export function sealSessionContent(plaintext: string): { content: string, encryption?: string } {
+  if (!hasEncryptionKey()) {
+    // Fail closed, so the session stays queued instead of being stored in plaintext
+    if (isEncryptionKeyReleased()) {
+      throw new Error('RECALL_ENCRYPTION_KEY has been released; refusing to store the session unencrypted');
+    }
+    return { content: plaintext };
+  }
+
+  const message = Buffer.from(plaintext, 'utf8');
+  const nonce = Buffer.alloc(sodium.crypto_secretbox_NONCEBYTES);
+  const ciphertext = Buffer.alloc(message.length + sodium.crypto_secretbox_MACBYTES);
+  sodium.randombytes_buf(nonce);
+  withEncryptionKey(key => sodium.crypto_secretbox_easy(ciphertext, message, nonce, key));
+  sodium.sodium_memzero(message);
+
+  const envelope: EncryptedEnvelope = {
+    type: 'encrypted-session',
+    scheme: ENCRYPTION_SCHEME,
+    nonce: nonce.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+  return { content: JSON.stringify(envelope), encryption: ENCRYPTION_SCHEME };
+}
+
+/**
+ * Serialize a local file that holds session text, such as an outbox entry or the search index,
+ * encrypted whenever stored sessions are
+ */
+export function sealLocalFile(value: unknown): string {
+  return sealSessionContent(JSON.stringify(value)).content;
+}
+
+/**
+ * Parse a file written by sealLocalFile, or a plaintext one written before encryption was configured
+ * @throws When the file is encrypted and no key, or the wrong key, is configured
+ */
+export function openLocalFile<T>(content: string): T {
+  return JSON.parse(openSessionContent(content)) as T;
+}
+
+/**
+ * Decrypt stored session content; plaintext sessions are returned unchanged
+ * @throws When the content is encrypted and no key, or the wrong key, is configured
+ */
+export function openSessionContent(content: string): string {
+  const envelope = parseEnvelope(content);
+  if (!envelope) return content;
+
+  if (envelope.scheme !== ENCRYPTION_SCHEME) {
+    throw new Error(`Unsupported session encryption scheme "${envelope.scheme}"`);
+  }
+  if (!hasEncryptionKey()) {
+    throw new Error('Session is encrypted; set RECALL_ENCRYPTION_KEY to read it');
+  }
+
+  const nonce = Buffer.from(envelope.nonce, 'base64');
+  const ciphertext = Buffer.from(envelope.ciphertext, 'base64');
+  if (nonce.length !== sodium.crypto_secretbox_NONCEBYTES || ciphertext.length < sodium.crypto_secretbox_MACBYTES) {
+    throw new Error('Encrypted session is malformed');
+  }
+
+  const message = Buffer.alloc(ciphertext.length - sodium.crypto_secretbox_MACBYTES);
+  const opened = withEncryptionKey(key => sodium.crypto_secretbox_open_easy(message, ciphertext, nonce, key));
+  if (!opened) {
+    throw new Error('Could not decrypt session; RECALL_ENCRYPTION_KEY does not match the key it was stored with');
+  }
+
+  const plaintext = message.toString('utf8');
+  sodium.sodium_memzero(message);
+  return plaintext;
+}
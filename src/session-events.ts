@@ -0,0 +1,9 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Process-wide notifications about sessions.
+ * - `stored` (key: string): a session object was written to storage
+ * - `removed` (key: string): a session object was deleted or moved to the archive
+ * - `active-changed`: an in-memory session was opened or closed
+ */
+export const sessionEvents = new EventEmitter();
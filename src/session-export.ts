@@ -0,0 +1,228 @@
+import { ThoughtData } from './storage-backend.js';
+import { buildThoughtGraph, MAIN_LINE, ThoughtGraph, ThoughtNode } from './session-graph.js';
+
+export type ExportFormat = 'markdown' | 'mermaid' | 'html';
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'mermaid', 'html'];
+
+// A session in the shape the renderers need, whether stored or live
+export interface RenderableSession {
+  title: string;
+  sessionId?: string;
+  query?: string;
+  createdAt?: string;
+  thoughts: ThoughtData[];
+}
+
+/**
+ * Heading for one thought, marking revisions and branches
+ */
+function thoughtHeading(thought: ThoughtData): string {
+  const position = `Thought ${thought.thoughtNumber}/${thought.totalThoughts}`;
+  if (thought.isRevision) {
+    return `${position} — revision of thought ${thought.revisesThought ?? '?'}`;
+  }
+  if (thought.branchFromThought) {
+    return `${position} — branch \`${thought.branchId ?? 'unnamed'}\` from thought ${thought.branchFromThought}`;
+  }
+  if (thought.branchId) {
+    return `${position} — branch \`${thought.branchId}\``;
+  }
+  return position;
+}
+
+/**
+ * Render a session as Markdown, one section per thought
+ */
+export function renderSessionMarkdown(session: RenderableSession): string {
+  const branchIds = [...new Set(session.thoughts.map(thought => thought.branchId).filter(Boolean))];
+  const revisions = session.thoughts.filter(thought => thought.isRevision).length;
+
+  const lines: string[] = [
+    `# Thinking session ${session.title}`,
+    '',
+    ...(session.sessionId ? [`- **Session ID:** ${session.sessionId}`] : []),
+    ...(session.query ? [`- **Query:** ${session.query}`] : []),
+    ...(session.createdAt ? [`- **Created:** ${session.createdAt}`] : []),
+    `- **Thoughts:** ${session.thoughts.length}`,
+    `- **Revisions:** ${revisions}`,
+    `- **Branches:** ${branchIds.length > 0 ? branchIds.map(id => `\`${id}\``).join(', ') : 'none'}`,
+  ];
+
+  const graph = buildThoughtGraph(session.thoughts);
+  session.thoughts.forEach((thought, index) => {
+    lines.push('', `## ${thoughtHeading(thought)}`, '', thought.thought);
+    if (thought.needsMoreThoughts) {
+      lines.push('', '_Needs more thoughts._');
+    }
+    const supersededBy = graph.nodes[index].supersededBy;
+    if (supersededBy) {
+      lines.push('', `_Superseded by ${supersededBy.map(id => `thought ${graph.nodes[id - 1].thoughtNumber}`).join(', ')}._`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+// Longest thought excerpt shown in a flowchart node
+const MERMAID_LABEL_LENGTH = 60;
+
+/**
+ * Make thought text safe inside a quoted Mermaid label
+ */
+function mermaidLabel(node: ThoughtNode): string {
+  const text = node.thought.replace(/\s+/g, ' ').trim();
+  const excerpt = text.length > MERMAID_LABEL_LENGTH ? `${text.substring(0, MERMAID_LABEL_LENGTH)}…` : text;
+  const marker = node.isRevision ? ` (revises ${node.revisesThought})` : '';
+  return `${node.thoughtNumber}${marker}: ${excerpt}`
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+}
+
+/**
+ * Render the thought graph as a Mermaid flowchart: one subgraph per branch,
+ * dotted edges from revisions, superseded thoughts greyed out and the final path highlighted
+ */
+export function renderSessionMermaid(session: RenderableSession, graph: ThoughtGraph = buildThoughtGraph(session.thoughts)): string {
+  const lines: string[] = ['flowchart TD'];
+  const nodeLine = (node: ThoughtNode) => `    t${node.id}["${mermaidLabel(node)}"]`;
+
+  for (const line of graph.lines) {
+    const nodes = line.nodes.map(id => graph.nodes[id - 1]);
+    if (line.id === MAIN_LINE) {
+      lines.push(...nodes.map(node => nodeLine(node).substring(2)));
+    } else {
+      lines.push(`  subgraph branch_${graph.lines.indexOf(line)}["Branch ${line.id.replace(/"/g, '#quot;')}"]`);
+      lines.push(...nodes.map(nodeLine));
+      lines.push('  end');
+    }
+  }
+
+  for (const edge of graph.edges) {
+    if (edge.type === 'sequence') {
+      lines.push(`  t${edge.from} --> t${edge.to}`);
+    } else if (edge.type === 'branch') {
+      lines.push(`  t${edge.from} -->|branch| t${edge.to}`);
+    } else {
+      lines.push(`  t${edge.from} -.->|revises| t${edge.to}`);
+    }
+  }
+
+  const superseded = graph.nodes.filter(node => node.supersededBy).map(node => `t${node.id}`);
+  const finalPath = graph.finalPath.map(id => `t${id}`);
+  lines.push('  classDef superseded fill:#eee,stroke:#999,color:#777,stroke-dasharray: 4 2');
+  lines.push('  classDef final stroke:#2a7,stroke-width:2px');
+  if (superseded.length > 0) lines.push(`  class ${superseded.join(',')} superseded`);
+  if (finalPath.length > 0) lines.push(`  class ${finalPath.join(',')} final`);
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = `
+  body { font-family: system-ui, -apple-system, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.5; }
+  h1 { font-size: 1.4rem; word-break: break-all; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  .thought { border-left: 4px solid #4a7bd0; margin: 1rem 0; padding: .5rem 1rem; background: #f7f9fc; }
+  .thought.branch { border-color: #3a9a5b; background: #f5fbf7; margin-left: 2rem; }
+  .thought.revision { border-color: #d09a2a; background: #fdf9f0; }
+  .thought.superseded { opacity: .6; }
+  .thought.final { box-shadow: inset 0 0 0 1px #2a7; }
+  .meta { font-size: .85rem; color: #555; margin-bottom: .25rem; }
+  .tag { display: inline-block; border-radius: 3px; padding: 0 .4rem; margin-left: .4rem; font-size: .75rem; background: #e3e8f0; }
+  .text { white-space: pre-wrap; }
+  pre { background: #f4f4f4; padding: 1rem; overflow-x: auto; }
+`;
+
+/**
+ * Render a session as a self-contained HTML page with inline styles and no external resources
+ */
+export function renderSessionHtml(session: RenderableSession): string {
+  const graph = buildThoughtGraph(session.thoughts);
+  const finalPath = new Set(graph.finalPath);
+  const branchIds = graph.lines.filter(line => line.id !== MAIN_LINE).map(line => line.id);
+
+  const details: [string, string][] = [
+    ...(session.sessionId ? [['Session ID', session.sessionId] as [string, string]] : []),
+    ...(session.query ? [['Query', session.query] as [string, string]] : []),
+    ...(session.createdAt ? [['Created', session.createdAt] as [string, string]] : []),
+    ['Thoughts', String(session.thoughts.length)],
+    ['Revisions', String(graph.nodes.filter(node => node.isRevision).length)],
+    ['Branches', branchIds.length > 0 ? branchIds.join(', ') : 'none'],
+  ];
+
+  const thoughts = graph.nodes.map(node => {
+    const classes = ['thought'];
+    const tags: string[] = [];
+    if (node.line !== MAIN_LINE) {
+      classes.push('branch');
+      tags.push(`branch ${node.line}${node.branchFromThought ? ` from ${node.branchFromThought}` : ''}`);
+    }
+    if (node.isRevision) {
+      classes.push('revision');
+      tags.push(`revises ${node.revisesThought}`);
+    }
+    if (node.supersededBy) {
+      classes.push('superseded');
+      tags.push('superseded');
+    }
+    if (finalPath.has(node.id)) {
+      classes.push('final');
+      tags.push('final path');
+    }
+    if (node.needsMoreThoughts) {
+      tags.push('needs more thoughts');
+    }
+
+    return `  <section class="${classes.join(' ')}" id="thought-${node.id}">
+    <div class="meta">Thought ${node.thoughtNumber}/${node.totalThoughts}${tags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join('')}</div>
+    <div class="text">${escapeHtml(node.thought)}</div>
+  </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Thinking session ${escapeHtml(session.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+  <h1>Thinking session ${escapeHtml(session.title)}</h1>
+  <dl>
+${details.map(([term, value]) => `    <dt>${escapeHtml(term)}</dt><dd>${escapeHtml(value)}</dd>`).join('\n')}
+  </dl>
+${thoughts.join('\n')}
+  <details>
+    <summary>Mermaid flowchart</summary>
+    <pre>${escapeHtml(renderSessionMermaid(session, graph))}</pre>
+  </details>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a session in the requested export format
+ */
+export function renderSession(session: RenderableSession, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderSessionMarkdown(session);
+    case 'mermaid':
+      return renderSessionMermaid(session);
+    case 'html':
+      return renderSessionHtml(session);
+  }
+}
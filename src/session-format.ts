@@ -0,0 +1,396 @@
+import chalk from 'chalk';
+import { logger, SERVER_VERSION } from './config.js';
+import {
+  SessionListOptions,
+  SessionListPage,
+  SessionMetadata,
+  SessionObjectInfo,
+  SessionQueryInfo,
+  ThoughtData,
+} from './storage-backend.js';
+import { labelMetadata, matchesLabels } from './session-labels.js';
+
+// Format written by this version; files without a header are format 1
+export const SESSION_FORMAT_VERSION = 2;
+
+// incomplete: a checkpoint of a session still in progress, replaced by the final store
+export type SessionStatus = 'complete' | 'incomplete' | 'interrupted' | 'abandoned';
+
+// A thought as stored: the tool input plus when it was recorded
+export type SessionThought = ThoughtData & {
+  timestamp?: number;
+};
+
+export interface BranchSummary {
+  branchId: string;
+  fromThought: number;
+  thoughtCount: number;
+}
+
+// Tamper evidence for a session: a hash of the header, then a hash chain over its thoughts,
+// optionally signed; see session-integrity.ts
+export interface SessionIntegrity {
+  algorithm: string;
+  headerHash: string;
+  thoughtHashes: string[];
+  rootHash: string;
+  signatureScheme?: 'eip191';
+  signature?: string;
+  // Address of the wallet that signed rootHash
+  signer?: string;
+}
+
+// Matches replaced by the content scrubber before storage; see content-scrubber.ts
+export interface ScrubSummary {
+  redactions: number;
+  // Matches replaced per rule; rules that did not fire are omitted
+  rules: Record<string, number>;
+}
+
+// First line of every format 2 session file
+export interface SessionHeader {
+  type: 'session-header';
+  formatVersion: number;
+  serverVersion: string;
+  sessionId?: string;
+  query?: string;
+  result?: string;
+  status: SessionStatus;
+  startedAt: string;
+  endedAt: string;
+  thoughtCount: number;
+  branches: BranchSummary[];
+  // Key of the stored session this one was resumed from, and its version number
+  resumedFrom?: string;
+  version?: number;
+  // Labels the session was stored with; relabeling changes object metadata, not the header
+  tags?: string[];
+  project?: string;
+  author?: string;
+  // Absent when scrubbing was disabled or the session predates it
+  scrubbing?: ScrubSummary;
+  integrity?: SessionIntegrity;
+}
+
+// A session ready to be serialized
+export interface SessionRecord {
+  header: SessionHeader;
+  thoughts: SessionThought[];
+}
+
+// A session read back from storage, in either format
+export interface StoredSession extends SessionRecord {
+  key: string;
+  formatVersion: number;
+  thoughtCount: number;
+  createdAt: string;
+  // Lines that could not be parsed; the rest of the session is still returned
+  errors?: { line: number, message: string, content: string }[];
+}
+
+// Placeholder written by format 1 sessions that had no query
+export const NO_QUERY_PLACEHOLDER = 'No query provided';
+
+/**
+ * The real query recorded on a format 1 thought, ignoring the placeholder
+ */
+function legacyQuery(thought: any): string | undefined {
+  const query = thought?.query;
+  return typeof query === 'string' && query && query !== NO_QUERY_PLACEHOLDER ? query : undefined;
+}
+
+let lastKeyTimestamp = 0;
+
+/**
+ * Build a new session object key from the current time
+ * Timestamps are kept strictly increasing so concurrent sessions never share a key
+ */
+export function createSessionKey(logPrefix: string): string {
+  lastKeyTimestamp = Math.max(Date.now(), lastKeyTimestamp + 1);
+  return `${logPrefix}${lastKeyTimestamp}-session.jsonl`;
+}
+
+/**
+ * Keep only the known thought fields, dropping anything else a caller attached
+ */
+function toSessionThought(raw: any): SessionThought {
+  return {
+    thought: raw.thought,
+    thoughtNumber: raw.thoughtNumber,
+    totalThoughts: raw.totalThoughts,
+    nextThoughtNeeded: raw.nextThoughtNeeded,
+    ...(raw.isRevision !== undefined ? { isRevision: raw.isRevision } : {}),
+    ...(raw.revisesThought !== undefined ? { revisesThought: raw.revisesThought } : {}),
+    ...(raw.branchFromThought !== undefined ? { branchFromThought: raw.branchFromThought } : {}),
+    ...(raw.branchId !== undefined ? { branchId: raw.branchId } : {}),
+    ...(raw.needsMoreThoughts !== undefined ? { needsMoreThoughts: raw.needsMoreThoughts } : {}),
+    ...(typeof raw.timestamp === 'number' ? { timestamp: raw.timestamp } : {}),
+  };
+}
+
+/**
+ * Summarize the branches taken in a session
+ */
+export function summarizeBranches(thoughts: ThoughtData[]): BranchSummary[] {
+  const branches = new Map<string, BranchSummary>();
+  for (const thought of thoughts) {
+    if (!thought.branchId) continue;
+    const existing = branches.get(thought.branchId);
+    if (existing) {
+      existing.thoughtCount++;
+    } else {
+      branches.set(thought.branchId, {
+        branchId: thought.branchId,
+        fromThought: thought.branchFromThought ?? 0,
+        thoughtCount: 1,
+      });
+    }
+  }
+  return [...branches.values()];
+}
+
+/**
+ * Build the header and thought records for a session about to be stored,
+ * replacing missing content with a placeholder
+ */
+export function buildSessionRecord(thoughts: ThoughtData[], queryInfo?: SessionQueryInfo): SessionRecord {
+  const now = Date.now();
+  const sessionThoughts = thoughts.map((thought, index) => {
+    if (!thought.thought) {
+      logger.error(chalk.yellow(`⚠️ Missing thought content for incoming thought ${index + 1}, using placeholder`));
+    }
+    return toSessionThought({ ...thought, thought: thought.thought || `Thought ${index + 1} (content missing)` });
+  });
+
+  const timestamps = sessionThoughts.map(thought => thought.timestamp).filter((t): t is number => t !== undefined);
+  const startedAt = queryInfo?.startedAt ?? (timestamps.length > 0 ? Math.min(...timestamps) : now);
+  const endedAt = queryInfo?.endedAt ?? (timestamps.length > 0 ? Math.max(...timestamps) : now);
+
+  return {
+    header: {
+      type: 'session-header',
+      formatVersion: SESSION_FORMAT_VERSION,
+      serverVersion: SERVER_VERSION,
+      ...(queryInfo?.sessionId ? { sessionId: queryInfo.sessionId } : {}),
+      ...(queryInfo?.query ? { query: queryInfo.query } : {}),
+      ...(queryInfo?.result ? { result: queryInfo.result } : {}),
+      status: queryInfo?.status ?? 'complete',
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      thoughtCount: sessionThoughts.length,
+      branches: summarizeBranches(sessionThoughts),
+      ...(queryInfo?.resumedFrom ? { resumedFrom: queryInfo.resumedFrom } : {}),
+      ...(queryInfo?.version ? { version: queryInfo.version } : {}),
+      ...(queryInfo?.tags?.length ? { tags: queryInfo.tags } : {}),
+      ...(queryInfo?.project ? { project: queryInfo.project } : {}),
+      ...(queryInfo?.author ? { author: queryInfo.author } : {}),
+    },
+    thoughts: sessionThoughts,
+  };
+}
+
+/**
+ * Convert a session to JSONL: the header line followed by one line per thought
+ */
+export function serializeSessionJSONL(record: SessionRecord): string {
+  return [record.header, ...record.thoughts.map(thought => ({ type: 'thought', ...thought }))]
+    .map(line => JSON.stringify(line))
+    .join('\n');
+}
+
+// Longest query excerpt kept in object metadata
+const METADATA_QUERY_LENGTH = 100;
+
+/**
+ * Object metadata for a session; values are strings, as Recall stores them.
+ * Encrypted sessions leave out the query, since metadata is stored in the clear.
+ */
+export function sessionMetadata(record: SessionRecord, encryption?: string): Record<string, string> {
+  const { header, thoughts } = record;
+  const query = header.query && header.query.length > METADATA_QUERY_LENGTH
+    ? `${header.query.substring(0, METADATA_QUERY_LENGTH)}...`
+    : header.query;
+
+  return {
+    thoughtCount: String(thoughts.length),
+    branchCount: String(header.branches.length),
+    revisionCount: String(thoughts.filter(thought => thought.isRevision).length),
+    status: header.status,
+    formatVersion: String(header.formatVersion),
+    ...(header.sessionId ? { sessionId: header.sessionId } : {}),
+    ...(query && !encryption ? { query } : {}),
+    ...(encryption ? { encryption } : {}),
+    ...(header.scrubbing ? { redactions: String(header.scrubbing.redactions) } : {}),
+    ...labelMetadata(header),
+  };
+}
+
+/**
+ * Read object metadata back into typed fields, ignoring anything unrecognized
+ */
+export function parseSessionMetadata(raw: Record<string, unknown> | undefined): SessionMetadata {
+  const metadata: SessionMetadata = {};
+  if (!raw) return metadata;
+
+  const number = (value: unknown): number | undefined => {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+  const text = (value: unknown): string | undefined => typeof value === 'string' && value ? value : undefined;
+
+  const fields: SessionMetadata = {
+    timestamp: number(raw.timestamp),
+    thoughtCount: number(raw.thoughtCount),
+    branchCount: number(raw.branchCount),
+    revisionCount: number(raw.revisionCount),
+    formatVersion: number(raw.formatVersion),
+    sessionId: text(raw.sessionId),
+    query: text(raw.query),
+    status: text(raw.status),
+    encryption: text(raw.encryption),
+    redactions: number(raw.redactions),
+    tags: typeof raw.tags === 'string' && raw.tags ? raw.tags.split(',') : undefined,
+    project: text(raw.project),
+    author: text(raw.author),
+  };
+  for (const [field, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      (metadata as Record<string, unknown>)[field] = value;
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Synthesize a header for a format 1 session, where session info was copied onto every thought line
+ */
+function legacyHeader(rawThoughts: any[], thoughts: SessionThought[]): SessionHeader {
+  const first = rawThoughts[0] || {};
+  const timestamps = thoughts.map(thought => thought.timestamp).filter((t): t is number => t !== undefined);
+  const startedAt = timestamps.length > 0 ? new Date(Math.min(...timestamps)).toISOString() : new Date(0).toISOString();
+  const endedAt = timestamps.length > 0 ? new Date(Math.max(...timestamps)).toISOString() : startedAt;
+  const query = legacyQuery(first);
+
+  return {
+    type: 'session-header',
+    formatVersion: 1,
+    serverVersion: 'unknown',
+    ...(first.sessionId ? { sessionId: first.sessionId } : {}),
+    ...(query ? { query } : {}),
+    ...(first.result ? { result: first.result } : {}),
+    status: 'complete',
+    startedAt,
+    endedAt,
+    thoughtCount: thoughts.length,
+    branches: summarizeBranches(thoughts),
+    ...(first.resumedFrom ? { resumedFrom: first.resumedFrom } : {}),
+    ...(typeof first.version === 'number' ? { version: first.version } : {}),
+  };
+}
+
+/**
+ * Parse JSONL session content in either format into a typed session
+ * Lines that fail to parse are reported in `errors` rather than dropping the session
+ */
+export function parseSessionJSONL(key: string, content: string): StoredSession {
+  const errors: { line: number, message: string, content: string }[] = [];
+  const records: any[] = [];
+
+  content.trim().split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch (parseError) {
+      logger.error(chalk.yellow(`⚠️ Error parsing line ${index + 1} of session: ${parseError}`));
+      errors.push({ line: index + 1, message: `Invalid JSON at line ${index + 1}`, content: line.substring(0, 50) });
+    }
+  });
+
+  const headerRecord = records[0]?.type === 'session-header' ? records.shift() : undefined;
+  const rawThoughts = records.filter(record => typeof record?.thoughtNumber === 'number');
+  const thoughts = rawThoughts.map(toSessionThought);
+
+  let header: SessionHeader;
+  if (headerRecord) {
+    if (headerRecord.formatVersion > SESSION_FORMAT_VERSION) {
+      logger.error(chalk.yellow(`⚠️ ${key} uses session format ${headerRecord.formatVersion}, newer than ${SESSION_FORMAT_VERSION}; reading known fields only`));
+    }
+    header = {
+      ...headerRecord,
+      thoughtCount: thoughts.length,
+      branches: Array.isArray(headerRecord.branches) ? headerRecord.branches : summarizeBranches(thoughts),
+    };
+  } else {
+    header = legacyHeader(rawThoughts, thoughts);
+  }
+
+  return {
+    key,
+    formatVersion: header.formatVersion,
+    header,
+    thoughts,
+    thoughtCount: thoughts.length,
+    createdAt: header.startedAt,
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+}
+
+/**
+ * Extract the creation timestamp embedded in a session key, if any
+ */
+export function timestampFromKey(key: string): number | undefined {
+  const timestampMatch = key.match(/-(\d+)-/);
+  return timestampMatch && timestampMatch[1] ? parseInt(timestampMatch[1], 10) : undefined;
+}
+
+/**
+ * Identify one version of a stored session for local caches. Checkpoints are rewritten
+ * under the same key, and two versions can have the same size, so the status and counts
+ * from the object metadata are compared as well.
+ */
+export function contentVersion(obj: SessionObjectInfo): string {
+  const metadata = obj.metadata ?? {};
+  return [obj.size, metadata.status ?? '', metadata.thoughtCount ?? '', metadata.revisionCount ?? '', metadata.branchCount ?? ''].join(':');
+}
+
+// Page size for listsessions when no limit is given, and the most one page may hold
+export const DEFAULT_LIST_LIMIT = 50;
+export const MAX_LIST_LIMIT = 500;
+
+/**
+ * Clamp a requested page size to the allowed range
+ */
+export function listLimit(limit?: number): number {
+  return Math.min(Math.max(Math.floor(limit ?? DEFAULT_LIST_LIMIT), 1), MAX_LIST_LIMIT);
+}
+
+/**
+ * Whether a listed session falls inside the requested creation time range
+ */
+export function inCreatedRange(obj: SessionObjectInfo, options: SessionListOptions): boolean {
+  const timestamp = obj.metadata?.timestamp;
+  if (options.createdAfter === undefined && options.createdBefore === undefined) return true;
+  if (timestamp === undefined) return false;
+  return (options.createdAfter === undefined || timestamp >= options.createdAfter)
+    && (options.createdBefore === undefined || timestamp <= options.createdBefore);
+}
+
+/**
+ * Cut one page from a full listing, for backends that cannot page natively.
+ * The cursor is the first key of the next page.
+ */
+export function pageSessionObjects(objects: SessionObjectInfo[], options: SessionListOptions, defaultPrefix: string): SessionListPage {
+  const prefix = options.keyPrefix ?? defaultPrefix;
+  const descending = options.order === 'desc';
+  const limit = listLimit(options.limit);
+
+  const matching = objects
+    .filter(obj => obj.key.startsWith(prefix) && inCreatedRange(obj, options) && matchesLabels(obj.metadata, options.labels ?? {}))
+    .filter(obj => !options.cursor || (descending ? obj.key <= options.cursor : obj.key >= options.cursor))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0) * (descending ? -1 : 1));
+
+  return {
+    objects: matching.slice(0, limit),
+    ...(matching.length > limit ? { nextCursor: matching[limit].key } : {}),
+  };
+}
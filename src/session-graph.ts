@@ -0,0 +1,132 @@
+import { ThoughtData } from './storage-backend.js';
+
+// Thoughts not on a branch belong to the main line
+export const MAIN_LINE = 'main';
+
+// One thought in the graph; ids are 1-based positions in the session
+export interface ThoughtNode {
+  id: number;
+  line: string;
+  thoughtNumber: number;
+  totalThoughts: number;
+  thought: string;
+  isRevision?: boolean;
+  revisesThought?: number;
+  branchFromThought?: number;
+  branchId?: string;
+  needsMoreThoughts?: boolean;
+  // Revisions that replaced this thought
+  supersededBy?: number[];
+}
+
+// sequence: next thought in the same line; branch: first thought of a branch from its branch point;
+// revises: a revision pointing at the thought it supersedes
+export interface ThoughtEdge {
+  from: number;
+  to: number;
+  type: 'sequence' | 'branch' | 'revises';
+}
+
+// The main line or one branch, as node ids in order
+export interface ThoughtLine {
+  id: string;
+  // Node the branch starts from; absent for the main line and for branches whose branch point is unknown
+  parent?: number;
+  nodes: number[];
+}
+
+export interface ThoughtGraph {
+  nodes: ThoughtNode[];
+  edges: ThoughtEdge[];
+  lines: ThoughtLine[];
+  // Node ids from the first thought to the conclusion, skipping superseded thoughts and abandoned branches
+  finalPath: number[];
+}
+
+/**
+ * Latest node before `before` with the given thought number, preferring the given line
+ */
+function findNode(nodes: ThoughtNode[], thoughtNumber: number, before: number, line?: string): ThoughtNode | undefined {
+  const candidates = nodes.slice(0, before - 1).filter(node => node.thoughtNumber === thoughtNumber).reverse();
+  return candidates.find(node => node.line === line) ?? candidates[0];
+}
+
+/**
+ * Turn a flat list of thoughts into the main line, its branches, and revision edges
+ */
+export function buildThoughtGraph(thoughts: ThoughtData[]): ThoughtGraph {
+  const nodes: ThoughtNode[] = [];
+  const edges: ThoughtEdge[] = [];
+  const lines = new Map<string, ThoughtLine>([[MAIN_LINE, { id: MAIN_LINE, nodes: [] }]]);
+
+  thoughts.forEach((thought, index) => {
+    const node: ThoughtNode = {
+      id: index + 1,
+      line: thought.branchId || MAIN_LINE,
+      thoughtNumber: thought.thoughtNumber,
+      totalThoughts: thought.totalThoughts,
+      thought: thought.thought,
+      ...(thought.isRevision ? { isRevision: true } : {}),
+      ...(thought.revisesThought !== undefined ? { revisesThought: thought.revisesThought } : {}),
+      ...(thought.branchFromThought !== undefined ? { branchFromThought: thought.branchFromThought } : {}),
+      ...(thought.branchId ? { branchId: thought.branchId } : {}),
+      ...(thought.needsMoreThoughts ? { needsMoreThoughts: true } : {}),
+    };
+    nodes.push(node);
+
+    let line = lines.get(node.line);
+    if (!line) {
+      line = { id: node.line, nodes: [] };
+      const branchPoint = thought.branchFromThought !== undefined
+        ? findNode(nodes, thought.branchFromThought, node.id)
+        : undefined;
+      if (branchPoint) {
+        line.parent = branchPoint.id;
+        edges.push({ from: branchPoint.id, to: node.id, type: 'branch' });
+      }
+      lines.set(node.line, line);
+    } else if (line.nodes.length > 0) {
+      edges.push({ from: line.nodes[line.nodes.length - 1], to: node.id, type: 'sequence' });
+    }
+    line.nodes.push(node.id);
+
+    if (thought.isRevision && thought.revisesThought !== undefined) {
+      const target = findNode(nodes, thought.revisesThought, node.id, node.line);
+      if (target) {
+        (target.supersededBy ||= []).push(node.id);
+        edges.push({ from: node.id, to: target.id, type: 'revises' });
+      }
+    }
+  });
+
+  return {
+    nodes,
+    edges,
+    lines: [...lines.values()].filter(line => line.nodes.length > 0),
+    finalPath: effectivePath(nodes, lines),
+  };
+}
+
+/**
+ * Walk back from the last thought through its line and the branch points it
+ * came from, then drop thoughts that were later revised
+ */
+function effectivePath(nodes: ThoughtNode[], lines: Map<string, ThoughtLine>): number[] {
+  const last = nodes[nodes.length - 1];
+  if (!last) return [];
+
+  const path: number[] = [];
+  let line = lines.get(last.line);
+  let upTo = last.id;
+  const visited = new Set<string>();
+
+  while (line && !visited.has(line.id)) {
+    visited.add(line.id);
+    path.unshift(...line.nodes.filter(id => id <= upTo));
+    if (line.parent === undefined) break;
+    upTo = line.parent;
+    line = lines.get(nodes[line.parent - 1].line);
+  }
+
+  return path.filter(id => !nodes[id - 1].supersededBy);
+}
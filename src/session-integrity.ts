@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+import { Address, Hex, recoverMessageAddress } from 'viem';
+import { SessionIntegrity, SessionRecord } from './session-format.js';
+import { openSessionContent } from './session-crypto.js';
+import { StorageBackend } from './storage-backend.js';
+
+export const INTEGRITY_ALGORITHM = 'sha256-chain';
+
+// Signs a session's root hash; the Recall backend signs with its wallet
+export type SessionSigner = (rootHash: Hex) => Promise<{ signature: Hex, address: Address }>;
+
+// Outcome of checking one stored session
+export interface IntegrityReport {
+  // True only when the chain matches and, if signed, the signature is valid
+  valid: boolean;
+  hasIntegrity: boolean;
+  headerValid?: boolean;
+  chainValid?: boolean;
+  // First thought whose content no longer matches its hash, by position (1-based)
+  firstMismatch?: { position: number, thoughtNumber?: number };
+  thoughtCount?: number;
+  chainLength?: number;
+  rootHash?: string;
+  signed: boolean;
+  signatureValid?: boolean;
+  // Address recovered from the signature, and the one recorded when it was stored
+  signerAddress?: string;
+  recordedSigner?: string;
+  problems: string[];
+}
+
+// A stored session's report, judged against the wallet it should be signed by
+export interface StoredSessionVerification extends IntegrityReport {
+  key: string;
+  expectedSigner?: string;
+  // Whether the signature came from expectedSigner; only set for signed sessions when one is known
+  trustedSigner?: boolean;
+}
+
+/**
+ * JSON with object keys sorted at every level and undefined values dropped,
+ * so the same data always hashes the same regardless of key order
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJSON(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+const sha256 = (data: string): Hex => `0x${createHash('sha256').update(data, 'utf8').digest('hex')}`;
+
+/**
+ * Hash of the header without its integrity field
+ */
+function hashHeader(header: Record<string, unknown>): Hex {
+  const { integrity: _integrity, ...hashedHeader } = header;
+  return sha256(canonicalJSON(hashedHeader));
+}
+
+/**
+ * Chain every thought onto the header hash: each link is the hash of the previous link and the thought
+ */
+function chainThoughts(headerHash: string, thoughts: Record<string, unknown>[]): Hex[] {
+  const links: Hex[] = [];
+  let previous = headerHash;
+  for (const thought of thoughts) {
+    const { type: _type, ...hashedThought } = thought;
+    const link = sha256(`${previous}${canonicalJSON(hashedThought)}`);
+    links.push(link);
+    previous = link;
+  }
+  return links;
+}
+
+/**
+ * Add a hash chain over the session to its header, signed when a signer is given.
+ * Call after every other header field is final; changing one afterwards breaks the chain.
+ */
+export async function addSessionIntegrity(record: SessionRecord, signer?: SessionSigner): Promise<SessionRecord> {
+  const header = { ...record.header };
+  delete header.integrity;
+
+  const headerHash = hashHeader(header as unknown as Record<string, unknown>);
+  const thoughtHashes = chainThoughts(headerHash, record.thoughts as unknown as Record<string, unknown>[]);
+  const rootHash = thoughtHashes[thoughtHashes.length - 1] ?? headerHash;
+  const integrity: SessionIntegrity = { algorithm: INTEGRITY_ALGORITHM, headerHash, thoughtHashes, rootHash };
+
+  if (signer) {
+    const { signature, address } = await signer(rootHash);
+    integrity.signatureScheme = 'eip191';
+    integrity.signature = signature;
+    integrity.signer = address;
+  }
+
+  return { ...record, header: { ...header, integrity } };
+}
+
+/**
+ * Check the hash chain and signature of a session, from its decrypted JSONL.
+ * Works on the raw lines rather than the parsed session, so fields a reader would
+ * normalize are still covered.
+ */
+export async function verifySessionIntegrity(content: string): Promise<IntegrityReport> {
+  const problems: string[] = [];
+  let records: Record<string, any>[];
+  try {
+    records = content.trim().split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  } catch (error: any) {
+    return { valid: false, hasIntegrity: false, signed: false, problems: [`Session is not valid JSONL: ${error.message}`] };
+  }
+
+  const header = records[0]?.type === 'session-header' ? records[0] : undefined;
+  const integrity: SessionIntegrity | undefined = header?.integrity;
+  if (!header || !integrity) {
+    return { valid: false, hasIntegrity: false, signed: false, problems: ['Session has no integrity data; it was stored before hash chains were added'] };
+  }
+  if (integrity.algorithm !== INTEGRITY_ALGORITHM) {
+    return { valid: false, hasIntegrity: true, signed: !!integrity.signature, problems: [`Unsupported integrity algorithm "${integrity.algorithm}"`] };
+  }
+
+  const thoughts = records.slice(1);
+  const headerValid = hashHeader(header) === integrity.headerHash;
+  if (!headerValid) {
+    problems.push('Header fields were changed after the session was stored');
+  }
+
+  // Chain from the recorded header hash, so an edited header does not hide which thoughts were edited
+  const links = chainThoughts(integrity.headerHash, thoughts);
+  const recorded = Array.isArray(integrity.thoughtHashes) ? integrity.thoughtHashes : [];
+  const mismatch = links.findIndex((hash, index) => hash !== recorded[index]);
+  if (mismatch >= 0) {
+    problems.push(`Thought at position ${mismatch + 1} does not match its recorded hash`);
+  }
+  if (thoughts.length !== recorded.length) {
+    problems.push(`Session has ${thoughts.length} thoughts but the chain covers ${recorded.length}`);
+  }
+  const chainValid = headerValid && mismatch < 0 && thoughts.length === recorded.length
+    && (links[links.length - 1] ?? integrity.headerHash) === integrity.rootHash;
+  if (chainValid === false && problems.length === 0) {
+    problems.push('Root hash does not match the chain');
+  }
+
+  const report: IntegrityReport = {
+    valid: chainValid,
+    hasIntegrity: true,
+    headerValid,
+    chainValid,
+    ...(mismatch >= 0 ? { firstMismatch: { position: mismatch + 1, thoughtNumber: thoughts[mismatch]?.thoughtNumber } } : {}),
+    thoughtCount: thoughts.length,
+    chainLength: recorded.length,
+    rootHash: integrity.rootHash,
+    signed: !!integrity.signature,
+    ...(integrity.signer ? { recordedSigner: integrity.signer } : {}),
+    problems,
+  };
+
+  if (integrity.signature) {
+    try {
+      // Recovery only yields the recorded signer if that wallet signed this exact root hash
+      const signerAddress = await recoverMessageAddress({ message: { raw: integrity.rootHash as Hex }, signature: integrity.signature as Hex });
+      report.signerAddress = signerAddress;
+      report.signatureValid = !integrity.signer || signerAddress.toLowerCase() === integrity.signer.toLowerCase();
+      if (!report.signatureValid) {
+        problems.push(`Signature was made by ${signerAddress}, not the recorded signer ${integrity.signer}`);
+      }
+    } catch (error: any) {
+      report.signatureValid = false;
+      problems.push(`Signature could not be checked: ${error.message}`);
+    }
+    report.valid = chainValid && report.signatureValid === true;
+  }
+
+  return report;
+}
+
+/**
+ * Verify a stored session, decrypting it if needed. Anyone can re-sign a rebuilt chain,
+ * so a valid signature only counts when it comes from the expected wallet.
+ * @param expectedSigner Defaults to the backend's own wallet
+ * @throws When nothing is stored under the key
+ */
+export async function verifyStoredSession(storage: StorageBackend, key: string, expectedSigner?: string): Promise<StoredSessionVerification> {
+  const content = await storage.getObjectContent(key);
+  if (content === null) {
+    throw new Error(`Session file "${key}" not found`);
+  }
+
+  const report = await verifySessionIntegrity(openSessionContent(content));
+  const signer = expectedSigner || storage.getSignerAddress();
+  const trustedSigner = report.signerAddress && signer
+    ? report.signerAddress.toLowerCase() === signer.toLowerCase()
+    : undefined;
+  if (trustedSigner === false) {
+    report.problems.push(`Signed by ${report.signerAddress}, expected ${signer}`);
+  }
+
+  return {
+    key,
+    ...report,
+    valid: report.valid && trustedSigner !== false,
+    ...(signer ? { expectedSigner: signer } : {}),
+    // An unsigned session has no signer to trust or distrust; `signed: false` already says so
+    ...(signer && report.signed ? { trustedSigner: trustedSigner ?? false } : {}),
+  };
+}
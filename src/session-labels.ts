@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import chalk from 'chalk';
+import { logger } from './config.js';
+import { SessionMetadata, StorageBackend } from './storage-backend.js';
+
+// Tags are stored comma-separated in object metadata, so they cannot contain commas
+export const tagSchema = z.string().trim().min(1).max(64).regex(/^[^,]*$/, 'tags must not contain commas');
+export const labelSchema = z.string().trim().min(1).max(100);
+export const MAX_TAGS = 20;
+
+// Who and what a session belongs to; stored in the header and in object metadata
+export interface SessionLabels {
+  tags?: string[];
+  project?: string;
+  author?: string;
+}
+
+// Changes to a stored session's labels; an empty project or author removes it
+export interface LabelUpdate {
+  // Replaces every tag
+  tags?: string[];
+  addTags?: string[];
+  removeTags?: string[];
+  project?: string;
+  author?: string;
+}
+
+const same = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Trim tags and drop duplicates, which differ only in case, keeping the first spelling
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const result: string[] = [];
+  for (const tag of tags.map(tag => tag.trim()).filter(Boolean)) {
+    if (!result.some(existing => same(existing, tag))) {
+      result.push(tag);
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge labels sent with a thought into the session's labels: tags accumulate,
+ * a new project or author replaces the old one
+ */
+export function mergeLabels(current: SessionLabels, incoming: SessionLabels): SessionLabels {
+  const tags = normalizeTags([...(current.tags ?? []), ...(incoming.tags ?? [])]).slice(0, MAX_TAGS);
+  const project = incoming.project?.trim() || current.project;
+  const author = incoming.author?.trim() || current.author;
+  return {
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(project ? { project } : {}),
+    ...(author ? { author } : {}),
+  };
+}
+
+/**
+ * Whether a session's labels satisfy a filter: every requested tag, and the project and author if given.
+ * Comparisons ignore case.
+ */
+export function matchesLabels(labels: SessionLabels | undefined, filter: SessionLabels): boolean {
+  if (filter.project && !(labels?.project && same(labels.project, filter.project))) return false;
+  if (filter.author && !(labels?.author && same(labels.author, filter.author))) return false;
+  return (filter.tags ?? []).every(tag => labels?.tags?.some(existing => same(existing, tag)));
+}
+
+/**
+ * Read a label filter from tool arguments
+ * @throws When a filter value has the wrong type
+ */
+export function parseLabelFilter(args: Record<string, any> | undefined): SessionLabels {
+  const parsed = z.object({
+    tags: z.union([tagSchema, z.array(tagSchema)]).optional(),
+    project: labelSchema.optional(),
+    author: labelSchema.optional(),
+  }).safeParse({ tags: args?.tags ?? undefined, project: args?.project || undefined, author: args?.author || undefined });
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${issue.path.join('.') || 'filter'}: ${issue.message}`);
+  }
+
+  const { tags, project, author } = parsed.data;
+  return {
+    ...(tags ? { tags: Array.isArray(tags) ? tags : [tags] } : {}),
+    ...(project ? { project } : {}),
+    ...(author ? { author } : {}),
+  };
+}
+
+/**
+ * Labels as object metadata values
+ */
+export function labelMetadata(labels: SessionLabels): Record<string, string> {
+  return {
+    ...(labels.tags?.length ? { tags: labels.tags.join(',') } : {}),
+    ...(labels.project ? { project: labels.project } : {}),
+    ...(labels.author ? { author: labels.author } : {}),
+  };
+}
+
+export function labelsOf(metadata: SessionMetadata | undefined): SessionLabels {
+  return {
+    ...(metadata?.tags?.length ? { tags: metadata.tags } : {}),
+    ...(metadata?.project ? { project: metadata.project } : {}),
+    ...(metadata?.author ? { author: metadata.author } : {}),
+  };
+}
+
+/**
+ * Change the labels of a stored session by rewriting its metadata only.
+ * The content, including the labels in its header and its integrity chain, is left as stored.
+ * @returns The labels before and after the change
+ * @throws When nothing is stored under the key or the update is invalid
+ */
+export async function relabelSession(storage: StorageBackend, key: string, update: LabelUpdate): Promise<{ previous: SessionLabels, labels: SessionLabels }> {
+  const parsed = z.object({
+    tags: z.array(tagSchema).max(MAX_TAGS).optional(),
+    addTags: z.array(tagSchema).optional(),
+    removeTags: z.array(tagSchema).optional(),
+    project: z.string().trim().max(100).optional(),
+    author: z.string().trim().max(100).optional(),
+  }).safeParse(update);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${issue.path.join('.') || 'update'}: ${issue.message}`);
+  }
+  const changes = parsed.data;
+  if (Object.values(changes).every(value => value === undefined)) {
+    throw new Error('Nothing to change; pass tags, addTags, removeTags, project or author');
+  }
+
+  const current = await storage.getSessionMetadata(key);
+  if (!current) {
+    throw new Error(`Session file "${key}" not found`);
+  }
+
+  const previous = labelsOf(current);
+  let tags = changes.tags ?? previous.tags ?? [];
+  tags = normalizeTags([...tags, ...(changes.addTags ?? [])])
+    .filter(tag => !(changes.removeTags ?? []).some(removed => same(removed, tag)));
+  if (tags.length > MAX_TAGS) {
+    throw new Error(`A session can have at most ${MAX_TAGS} tags`);
+  }
+  const project = changes.project !== undefined ? changes.project : previous.project;
+  const author = changes.author !== undefined ? changes.author : previous.author;
+  const labels: SessionLabels = {
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(project ? { project } : {}),
+    ...(author ? { author } : {}),
+  };
+
+  const metadata = labelMetadata(labels);
+  await storage.updateSessionMetadata(key, {
+    tags: metadata.tags ?? null,
+    project: metadata.project ?? null,
+    author: metadata.author ?? null,
+  });
+  logger.error(chalk.green(`🏷️ Relabeled ${key}: ${JSON.stringify(labels)}`));
+  return { previous, labels };
+}
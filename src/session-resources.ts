@@ -0,0 +1,133 @@
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import chalk from 'chalk';
+import { logger } from './config.js';
+import { getStorageBackend } from './storage.js';
+import { renderSessionMarkdown } from './session-export.js';
+import { openSessionContent } from './session-crypto.js';
+import { SequentialThinkingServer } from './thinking-server.js';
+
+// Stored sessions are addressed by object key, live ones by session ID
+const STORED_HOST = 'stored';
+const LIVE_HOST = 'live';
+
+export function storedSessionUri(key: string): string {
+  return `session://${STORED_HOST}/${encodeURIComponent(key)}`;
+}
+
+export function liveSessionUri(sessionId: string): string {
+  return `session://${LIVE_HOST}/${encodeURIComponent(sessionId)}`;
+}
+
+// Append ?view=markdown to any session URI for a rendered view
+export const SESSION_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `session://${STORED_HOST}/{key}{?view}`,
+    name: 'Stored thinking session',
+    description: 'A session stored in Recall. Returns the raw JSONL, or a Markdown rendering with view=markdown',
+    mimeType: 'application/x-ndjson',
+  },
+  {
+    uriTemplate: `session://${LIVE_HOST}/{sessionId}{?view}`,
+    name: 'Live thinking session',
+    description: 'A session still open in memory. Returns JSON, or a Markdown rendering with view=markdown',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * List the live in-memory sessions and every stored session as resources
+ */
+export async function listSessionResources(thinkingServer: SequentialThinkingServer): Promise<Resource[]> {
+  const live: Resource[] = thinkingServer.listActiveSessions().map(session => ({
+    uri: liveSessionUri(session.sessionId),
+    name: `Live session ${session.sessionId}`,
+    description: `${session.thoughtCount} thought(s) in progress${session.query ? ` for: ${session.query}` : ''}`,
+    mimeType: 'application/json',
+  }));
+
+  let stored: Resource[] = [];
+  try {
+    const objects = await getStorageBackend().listAllSessionObjects();
+    stored = objects.map(obj => ({
+      uri: storedSessionUri(obj.key),
+      name: obj.key,
+      description: obj.metadata?.timestamp
+        ? `Thinking session stored ${new Date(obj.metadata.timestamp).toISOString()}`
+        : 'Stored thinking session',
+      mimeType: 'application/x-ndjson',
+    }));
+  } catch (error: any) {
+    // Live sessions are still worth listing when storage is unavailable
+    logger.error(chalk.yellow(`⚠️ Could not list stored sessions as resources: ${error.message}`));
+  }
+
+  return [...live, ...stored];
+}
+
+/**
+ * Read a session resource as raw content or a rendered Markdown view
+ */
+export async function readSessionResource(uri: string, thinkingServer: SequentialThinkingServer): Promise<{ uri: string, mimeType: string, text: string }[]> {
+  let parsed: URL;
+  try {
+    parsed = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+
+  if (parsed.protocol !== 'session:') {
+    throw new Error(`Unknown resource URI: ${uri}`);
+  }
+
+  const id = decodeURIComponent(parsed.pathname.replace(/^\//, ''));
+  const view = parsed.searchParams.get('view');
+  if (view && view !== 'markdown') {
+    throw new Error(`Unsupported view "${view}"; use view=markdown or omit it`);
+  }
+
+  if (parsed.host === LIVE_HOST) {
+    const session = thinkingServer.getActiveSession(id);
+    if (!session) {
+      throw new Error(`Live session "${id}" is not open`);
+    }
+
+    return [view === 'markdown'
+      ? {
+        uri,
+        mimeType: 'text/markdown',
+        text: renderSessionMarkdown({ title: session.sessionId, sessionId: session.sessionId, query: session.query, createdAt: session.startedAt, thoughts: session.thoughtHistory }),
+      }
+      : { uri, mimeType: 'application/json', text: JSON.stringify(session, null, 2) }];
+  }
+
+  if (parsed.host === STORED_HOST) {
+    const storage = getStorageBackend();
+
+    if (view === 'markdown') {
+      const sessionData = await storage.getSessionObject(id);
+      if (!sessionData) {
+        throw new Error(`Session file "${id}" not found`);
+      }
+
+      return [{
+        uri,
+        mimeType: 'text/markdown',
+        text: renderSessionMarkdown({
+          title: id,
+          sessionId: sessionData.header.sessionId,
+          query: sessionData.header.query,
+          createdAt: sessionData.createdAt,
+          thoughts: sessionData.thoughts,
+        }),
+      }];
+    }
+
+    const content = await storage.getObjectContent(id);
+    if (content === null) {
+      throw new Error(`Session file "${id}" not found`);
+    }
+    return [{ uri, mimeType: 'application/x-ndjson', text: openSessionContent(content) }];
+  }
+
+  throw new Error(`Unknown resource URI: ${uri}`);
+}
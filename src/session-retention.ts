@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import chalk from 'chalk';
+import { config, logger } from './config.js';
+import { MAX_LIST_LIMIT } from './session-format.js';
+import { sessionEvents } from './session-events.js';
+import { SessionObjectInfo, StorageBackend } from './storage-backend.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A checkpoint whose session started longer ago than this, and never stored its final
+// thought, was left behind by a crash; the idle timeout would have closed it otherwise
+const checkpointGraceMs = (): number => Math.max(config.RECALL_SESSION_IDLE_TIMEOUT_MS, DAY_MS);
+
+const retentionRuleSchema = z.object({
+  // Keys the rule applies to; defaults to RECALL_LOG_PREFIX
+  prefix: z.string().optional(),
+  maxAgeDays: z.number().positive().optional(),
+  maxCount: z.number().int().min(0).optional(),
+  action: z.enum(['archive', 'delete']).default('archive'),
+}).refine(rule => rule.maxAgeDays !== undefined || rule.maxCount !== undefined, {
+  message: 'a rule needs maxAgeDays, maxCount or both',
+});
+
+export type RetentionRule = z.infer<typeof retentionRuleSchema> & { prefix: string };
+
+// A session the policy would remove, and why
+export interface RetentionCandidate {
+  key: string;
+  prefix: string;
+  createdAt?: string;
+  reason: 'max-age' | 'max-count';
+  action: 'archive' | 'delete';
+}
+
+export interface RetentionPlan {
+  rules: RetentionRule[];
+  candidates: RetentionCandidate[];
+  evaluatedAt: string;
+}
+
+export interface RetentionResult {
+  archived: string[];
+  deleted: string[];
+  failed: { key: string, error: string }[];
+}
+
+let cachedRules: RetentionRule[] | null = null;
+
+/**
+ * Parse RECALL_RETENTION_RULES; an unset variable means no retention policy
+ * @throws When the rules are not valid JSON or do not match the rule schema
+ */
+export function getRetentionRules(): RetentionRule[] {
+  if (cachedRules) return cachedRules;
+
+  const raw = config.RECALL_RETENTION_RULES.trim();
+  if (!raw) {
+    return (cachedRules = []);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    throw new Error(`RECALL_RETENTION_RULES is not valid JSON: ${error.message}`);
+  }
+
+  const result = z.array(retentionRuleSchema).safeParse(Array.isArray(parsed) ? parsed : [parsed]);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid RECALL_RETENTION_RULES at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  return (cachedRules = result.data.map(rule => ({ ...rule, prefix: rule.prefix ?? config.RECALL_LOG_PREFIX })));
+}
+
+export function isArchivedKey(key: string): boolean {
+  return key.startsWith(config.RECALL_ARCHIVE_PREFIX);
+}
+
+/**
+ * Delete one stored session
+ * @throws When nothing is stored under the key
+ */
+export async function deleteSession(storage: StorageBackend, key: string): Promise<void> {
+  if (!await storage.deleteSessionObject(key)) {
+    throw new Error(`Session file "${key}" not found`);
+  }
+  sessionEvents.emit('removed', key);
+}
+
+/**
+ * Move one stored session under RECALL_ARCHIVE_PREFIX, out of listings and search
+ * @returns The archived key
+ * @throws When the session is already archived or nothing is stored under the key
+ */
+export async function archiveSession(storage: StorageBackend, key: string): Promise<string> {
+  if (isArchivedKey(key)) {
+    throw new Error(`Session file "${key}" is already archived`);
+  }
+
+  const archivedKey = `${config.RECALL_ARCHIVE_PREFIX}${key}`;
+  if (!await storage.moveSessionObject(key, archivedKey)) {
+    throw new Error(`Session file "${key}" not found`);
+  }
+  sessionEvents.emit('removed', key);
+  return archivedKey;
+}
+
+/**
+ * Every stored session under a prefix, oldest first
+ */
+async function listUnderPrefix(storage: StorageBackend, prefix: string): Promise<SessionObjectInfo[]> {
+  const objects: SessionObjectInfo[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await storage.listSessionObjects({ keyPrefix: prefix, cursor, limit: MAX_LIST_LIMIT, order: 'asc' });
+    objects.push(...page.objects);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return objects;
+}
+
+/**
+ * Work out which sessions the retention rules would remove, without changing anything.
+ * Within a prefix the newest maxCount sessions are kept; sessions older than maxAgeDays
+ * are removed regardless. A session matched by several rules is handled by the first.
+ * Checkpoints with status incomplete are never removed.
+ */
+export async function planRetention(storage: StorageBackend, now = Date.now()): Promise<RetentionPlan> {
+  const rules = getRetentionRules();
+  const candidates = new Map<string, RetentionCandidate>();
+
+  for (const rule of rules) {
+    // Archiving an archived session would nest it under the prefix again. Checkpoints of sessions
+    // that may still be in progress are left alone and not counted: the final store rewrites their key.
+    const objects = (await listUnderPrefix(storage, rule.prefix))
+      .filter(obj => !(rule.action === 'archive' && isArchivedKey(obj.key)))
+      .filter(obj => !(obj.metadata?.status === 'incomplete' && now - (obj.metadata.timestamp ?? now) < checkpointGraceMs()));
+    const newestFirst = [...objects].reverse();
+
+    newestFirst.forEach((obj, index) => {
+      if (candidates.has(obj.key)) return;
+
+      const timestamp = obj.metadata?.timestamp;
+      let reason: RetentionCandidate['reason'] | undefined;
+      if (rule.maxAgeDays !== undefined && timestamp !== undefined && now - timestamp > rule.maxAgeDays * DAY_MS) {
+        reason = 'max-age';
+      } else if (rule.maxCount !== undefined && index >= rule.maxCount) {
+        reason = 'max-count';
+      }
+
+      if (reason) {
+        candidates.set(obj.key, {
+          key: obj.key,
+          prefix: rule.prefix,
+          ...(timestamp !== undefined ? { createdAt: new Date(timestamp).toISOString() } : {}),
+          reason,
+          action: rule.action,
+        });
+      }
+    });
+  }
+
+  return { rules, candidates: [...candidates.values()], evaluatedAt: new Date(now).toISOString() };
+}
+
+/**
+ * Carry out a plan from planRetention, continuing past sessions that fail
+ */
+export async function applyRetention(storage: StorageBackend, plan: RetentionPlan): Promise<RetentionResult> {
+  const result: RetentionResult = { archived: [], deleted: [], failed: [] };
+
+  for (const candidate of plan.candidates) {
+    try {
+      if (candidate.action === 'delete') {
+        await deleteSession(storage, candidate.key);
+        result.deleted.push(candidate.key);
+      } else {
+        await archiveSession(storage, candidate.key);
+        result.archived.push(candidate.key);
+      }
+    } catch (error: any) {
+      logger.error(chalk.yellow(`⚠️ Retention could not ${candidate.action} ${candidate.key}: ${error.message}`));
+      result.failed.push({ key: candidate.key, error: error.message });
+    }
+  }
+
+  logger.error(chalk.green(`🧹 Retention applied: ${result.archived.length} archived, ${result.deleted.length} deleted, ${result.failed.length} failed`));
+  return result;
+}
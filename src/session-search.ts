@@ -0,0 +1,286 @@
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import chalk from 'chalk';
+import { config, logger } from './config.js';
+import { SessionObjectInfo, StorageBackend } from './storage-backend.js';
+import { contentVersion } from './session-format.js';
+import { isEncryptedContent, isEncryptionEnabled, openLocalFile, sealLocalFile } from './session-crypto.js';
+import { labelsOf, matchesLabels, SessionLabels } from './session-labels.js';
+
+// One indexed thought
+interface IndexedThought {
+  thoughtNumber: number;
+  branchId?: string;
+  text: string;
+}
+
+// One indexed session; an entry stays valid while its key and content version match
+interface IndexedSession {
+  key: string;
+  size: number;
+  // contentVersion() of the object when it was indexed; absent in indexes written before it existed
+  version?: string;
+  sessionId?: string;
+  query?: string;
+  createdAt?: string;
+  // From object metadata rather than the header, so relabeling shows up without re-indexing
+  labels?: SessionLabels;
+  thoughts: IndexedThought[];
+}
+
+interface SearchIndexFile {
+  version: number;
+  sessions: Record<string, IndexedSession>;
+}
+
+export interface SearchMatch {
+  thoughtNumber: number;
+  branchId?: string;
+  field: 'thought' | 'query' | 'branchId';
+  snippet: string;
+  score: number;
+}
+
+export interface SearchResult extends SessionLabels {
+  key: string;
+  score: number;
+  sessionId?: string;
+  query?: string;
+  createdAt?: string;
+  matches: SearchMatch[];
+}
+
+const INDEX_VERSION = 1;
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Split text into lowercase search terms
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}_-]+/u).filter(term => term.length > 1);
+}
+
+/**
+ * Count non-overlapping occurrences of a term in lowercase text
+ */
+function countOccurrences(haystack: string, term: string): number {
+  let count = 0;
+  let index = haystack.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+/**
+ * Cut a snippet of text around the first occurrence of any term
+ */
+function makeSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Full-text search across stored sessions, backed by a local index so
+ * repeat searches only download sessions that are new since the last one.
+ */
+class SessionSearchIndex {
+  private path = join(config.RECALL_DATA_DIR, 'search-index.json');
+  private sessions: Record<string, IndexedSession> | null = null;
+
+  private async load(): Promise<Record<string, IndexedSession>> {
+    if (this.sessions) return this.sessions;
+
+    try {
+      const content = await readFile(this.path, 'utf8');
+      if (isEncryptionEnabled() && !isEncryptedContent(content)) {
+        // Written before encryption was configured; rebuild it rather than keep a plaintext copy
+        await unlink(this.path);
+        this.sessions = {};
+      } else {
+        const file = openLocalFile<SearchIndexFile>(content);
+        this.sessions = file.version === INDEX_VERSION ? file.sessions : {};
+      }
+    } catch {
+      this.sessions = {};
+    }
+    return this.sessions;
+  }
+
+  private async save(): Promise<void> {
+    const file: SearchIndexFile = { version: INDEX_VERSION, sessions: this.sessions || {} };
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(`${this.path}.tmp`, sealLocalFile(file), { encoding: 'utf8', mode: 0o600 });
+    await rename(`${this.path}.tmp`, this.path);
+  }
+
+  /**
+   * Bring the index in line with the bucket: fetch new and rewritten sessions, drop deleted ones
+   * @returns How many sessions were downloaded and removed, and why the index was left as it was if listing failed
+   */
+  public async refresh(storage: StorageBackend): Promise<{ indexed: number, removed: number, total: number, error?: string }> {
+    const sessions = await this.load();
+
+    // Without a listing there is no telling which sessions were deleted, so search the index as it is
+    let objects: SessionObjectInfo[];
+    try {
+      objects = await storage.listAllSessionObjects();
+    } catch (error: any) {
+      logger.error(chalk.yellow(`⚠️ Search index not refreshed: ${error.message}`));
+      return { indexed: 0, removed: 0, total: Object.keys(sessions).length, error: error.message };
+    }
+    const liveKeys = new Set(objects.map(obj => obj.key));
+    let indexed = 0;
+    let removed = 0;
+
+    for (const key of Object.keys(sessions)) {
+      if (!liveKeys.has(key)) {
+        delete sessions[key];
+        removed++;
+      }
+    }
+
+    let relabeled = 0;
+    for (const obj of objects) {
+      const existing = sessions[obj.key];
+      const version = contentVersion(obj);
+      if (existing && existing.version === version) {
+        const labels = labelsOf(obj.metadata);
+        if (JSON.stringify(labels) !== JSON.stringify(existing.labels ?? {})) {
+          existing.labels = labels;
+          relabeled++;
+        }
+        continue;
+      }
+
+      const sessionData = await storage.getSessionObject(obj.key).catch((error: any) => {
+        logger.error(chalk.yellow(`⚠️ ${error.message}`));
+        return null;
+      });
+      if (!sessionData) {
+        logger.error(chalk.yellow(`⚠️ Could not index ${obj.key}; it will be retried on the next search`));
+        continue;
+      }
+
+      sessions[obj.key] = {
+        key: obj.key,
+        size: obj.size,
+        version,
+        sessionId: sessionData.header.sessionId,
+        query: sessionData.header.query,
+        createdAt: sessionData.createdAt,
+        labels: labelsOf(obj.metadata),
+        thoughts: sessionData.thoughts.map(thought => ({
+          thoughtNumber: thought.thoughtNumber,
+          branchId: thought.branchId,
+          text: String(thought.thought ?? ''),
+        })),
+      };
+      indexed++;
+    }
+
+    if (indexed > 0 || removed > 0 || relabeled > 0) {
+      await this.save().catch((error: any) => {
+        logger.error(chalk.yellow(`⚠️ Could not save search index: ${error.message}`));
+      });
+    }
+
+    logger.error(chalk.blue(`🔎 Search index refreshed: ${indexed} indexed, ${removed} removed, ${Object.keys(sessions).length} total`));
+    return { indexed, removed, total: Object.keys(sessions).length };
+  }
+
+  /**
+   * Rank sessions by how well their thoughts, query and branch IDs match the search text.
+   * Scores use term frequency weighted by inverse document frequency, with a bonus for exact phrases.
+   * @param filter Only sessions with these tags, project and author
+   */
+  public async search(text: string, limit: number = 10, filter: SessionLabels = {}): Promise<SearchResult[]> {
+    const sessions = Object.values(await this.load()).filter(session => matchesLabels(session.labels, filter));
+    const terms = [...new Set(tokenize(text))];
+    const phrase = text.trim().toLowerCase();
+    if (terms.length === 0 && !phrase) return [];
+
+    // Document frequency per term, counted over thoughts
+    const totalThoughts = sessions.reduce((sum, session) => sum + session.thoughts.length, 0) || 1;
+    const idf = new Map<string, number>();
+    for (const term of terms) {
+      let documents = 0;
+      for (const session of sessions) {
+        documents += session.thoughts.filter(thought => thought.text.toLowerCase().includes(term)).length;
+      }
+      idf.set(term, Math.log(1 + totalThoughts / (1 + documents)));
+    }
+
+    const scoreText = (value: string): number => {
+      const lower = value.toLowerCase();
+      let score = 0;
+      for (const term of terms) {
+        score += countOccurrences(lower, term) * (idf.get(term) || 0);
+      }
+      if (phrase && lower.includes(phrase) && terms.length > 1) {
+        score *= 2;
+      }
+      return score;
+    };
+
+    const results: SearchResult[] = [];
+    for (const session of sessions) {
+      const matches: SearchMatch[] = [];
+
+      for (const thought of session.thoughts) {
+        const score = scoreText(thought.text);
+        if (score > 0) {
+          matches.push({
+            thoughtNumber: thought.thoughtNumber,
+            ...(thought.branchId ? { branchId: thought.branchId } : {}),
+            field: 'thought',
+            snippet: makeSnippet(thought.text, terms.length > 0 ? terms : [phrase]),
+            score,
+          });
+        }
+        if (thought.branchId && (thought.branchId.toLowerCase() === phrase || terms.includes(thought.branchId.toLowerCase()))) {
+          matches.push({
+            thoughtNumber: thought.thoughtNumber,
+            branchId: thought.branchId,
+            field: 'branchId',
+            snippet: `Branch ${thought.branchId}`,
+            score: 3,
+          });
+        }
+      }
+
+      const queryScore = session.query ? scoreText(session.query) * 2 : 0;
+      if (session.query && queryScore > 0) {
+        matches.push({
+          thoughtNumber: 0,
+          field: 'query',
+          snippet: makeSnippet(session.query, terms),
+          score: queryScore,
+        });
+      }
+
+      if (matches.length > 0) {
+        matches.sort((a, b) => b.score - a.score);
+        results.push({
+          key: session.key,
+          score: Number(matches.reduce((sum, match) => sum + match.score, 0).toFixed(3)),
+          sessionId: session.sessionId,
+          query: session.query,
+          createdAt: session.createdAt,
+          ...session.labels,
+          matches: matches.slice(0, 5).map(match => ({ ...match, score: Number(match.score.toFixed(3)) })),
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+// Export a singleton instance
+export const sessionSearchIndex = new SessionSearchIndex();
@@ -0,0 +1,306 @@
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import chalk from 'chalk';
+import { config, logger } from './config.js';
+import { contentVersion, StoredSession } from './session-format.js';
+import { isEncryptedContent, isEncryptionEnabled, openLocalFile, sealLocalFile } from './session-crypto.js';
+import { matchesLabels, SessionLabels } from './session-labels.js';
+import { StorageBackend } from './storage-backend.js';
+
+// Figures for one stored session; cached, since computing them needs the whole session
+interface SessionFigures {
+  key: string;
+  size: number;
+  // contentVersion() of the object the figures were computed from
+  version?: string;
+  status: string;
+  createdAt?: string;
+  thoughtCount: number;
+  revisionCount: number;
+  branchCount: number;
+  // Thoughts whose totalThoughts is higher than the thought before
+  totalRaises: number;
+  initialEstimate: number;
+  finalEstimate: number;
+  needsMoreThoughtsCount: number;
+  durationMs?: number;
+  reachedConclusion: boolean;
+}
+
+interface StatsCacheFile {
+  version: number;
+  sessions: Record<string, SessionFigures>;
+}
+
+// Which sessions to include
+export interface StatsFilter {
+  createdAfter?: number;
+  createdBefore?: number;
+  labels?: SessionLabels;
+  // Checkpoints of sessions still in progress are left out unless asked for
+  includeIncomplete?: boolean;
+}
+
+export interface Distribution {
+  average: number;
+  median: number;
+  p90: number;
+  min: number;
+  max: number;
+}
+
+export interface SessionStatsReport {
+  sessions: number;
+  byStatus: Record<string, number>;
+  thoughts: Distribution & { total: number };
+  estimates: {
+    // Share of sessions where totalThoughts went up at least once
+    raisedRate: number;
+    averageRaises: number;
+    // Final totalThoughts divided by the first estimate, averaged over sessions
+    averageGrowth: number;
+  };
+  revisions: { total: number, perThought: number, sessionRate: number };
+  branches: { total: number, perSession: number, sessionRate: number };
+  needsMoreThoughts: { total: number, perThought: number, sessionRate: number };
+  durationMs: Distribution | null;
+  conclusionRate: number;
+  // Sessions that could not be read, by key
+  skipped: string[];
+}
+
+const CACHE_VERSION = 1;
+
+const round = (value: number, places = 3): number => Number(value.toFixed(places));
+
+/**
+ * Average, median, 90th percentile and range of a list of numbers
+ */
+function distribution(values: number[]): Distribution {
+  if (values.length === 0) {
+    return { average: 0, median: 0, p90: 0, min: 0, max: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (share: number) => sorted[Math.min(sorted.length - 1, Math.ceil(share * sorted.length) - 1)];
+  return {
+    average: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length, 1),
+    median: at(0.5),
+    p90: at(0.9),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function figuresFor(session: StoredSession, size: number, version: string): SessionFigures {
+  const { thoughts, header } = session;
+  let totalRaises = 0;
+  thoughts.forEach((thought, index) => {
+    if (index > 0 && thought.totalThoughts > thoughts[index - 1].totalThoughts) {
+      totalRaises++;
+    }
+  });
+
+  const startedAt = Date.parse(header.startedAt);
+  const endedAt = Date.parse(header.endedAt);
+
+  return {
+    key: session.key,
+    size,
+    version,
+    status: header.status,
+    createdAt: session.createdAt,
+    thoughtCount: thoughts.length,
+    revisionCount: thoughts.filter(thought => thought.isRevision).length,
+    branchCount: new Set(thoughts.map(thought => thought.branchId).filter(Boolean)).size,
+    totalRaises,
+    initialEstimate: thoughts[0]?.totalThoughts ?? 0,
+    finalEstimate: thoughts[thoughts.length - 1]?.totalThoughts ?? 0,
+    needsMoreThoughtsCount: thoughts.filter(thought => thought.needsMoreThoughts).length,
+    ...(Number.isFinite(startedAt) && Number.isFinite(endedAt) ? { durationMs: endedAt - startedAt } : {}),
+    reachedConclusion: thoughts[thoughts.length - 1]?.nextThoughtNeeded === false,
+  };
+}
+
+function aggregate(figures: SessionFigures[], skipped: string[]): SessionStatsReport {
+  const sessions = figures.length;
+  const totalThoughts = figures.reduce((sum, figure) => sum + figure.thoughtCount, 0);
+  const sum = (pick: (figure: SessionFigures) => number) => figures.reduce((total, figure) => total + pick(figure), 0);
+  const share = (count: number, of: number) => (of > 0 ? round(count / of) : 0);
+
+  const byStatus: Record<string, number> = {};
+  for (const figure of figures) {
+    byStatus[figure.status] = (byStatus[figure.status] ?? 0) + 1;
+  }
+
+  const withEstimate = figures.filter(figure => figure.initialEstimate > 0);
+  const durations = figures.map(figure => figure.durationMs).filter((value): value is number => value !== undefined && value >= 0);
+
+  return {
+    sessions,
+    byStatus,
+    thoughts: { total: totalThoughts, ...distribution(figures.map(figure => figure.thoughtCount)) },
+    estimates: {
+      raisedRate: share(figures.filter(figure => figure.totalRaises > 0).length, sessions),
+      averageRaises: share(sum(figure => figure.totalRaises), sessions),
+      averageGrowth: withEstimate.length > 0
+        ? round(withEstimate.reduce((total, figure) => total + figure.finalEstimate / figure.initialEstimate, 0) / withEstimate.length)
+        : 0,
+    },
+    revisions: {
+      total: sum(figure => figure.revisionCount),
+      perThought: share(sum(figure => figure.revisionCount), totalThoughts),
+      sessionRate: share(figures.filter(figure => figure.revisionCount > 0).length, sessions),
+    },
+    branches: {
+      total: sum(figure => figure.branchCount),
+      perSession: share(sum(figure => figure.branchCount), sessions),
+      sessionRate: share(figures.filter(figure => figure.branchCount > 0).length, sessions),
+    },
+    needsMoreThoughts: {
+      total: sum(figure => figure.needsMoreThoughtsCount),
+      perThought: share(sum(figure => figure.needsMoreThoughtsCount), totalThoughts),
+      sessionRate: share(figures.filter(figure => figure.needsMoreThoughtsCount > 0).length, sessions),
+    },
+    durationMs: durations.length > 0 ? distribution(durations) : null,
+    conclusionRate: share(figures.filter(figure => figure.reachedConclusion).length, sessions),
+    skipped,
+  };
+}
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${round(ms / 1000, 1)}s`;
+  return `${round(ms / 60000, 1)}min`;
+}
+
+/**
+ * A few lines a human can read at a glance
+ */
+export function summarizeStats(report: SessionStatsReport): string {
+  if (report.sessions === 0) {
+    return 'No stored sessions match.';
+  }
+
+  const statuses = Object.entries(report.byStatus).map(([status, count]) => `${count} ${status}`).join(', ');
+  return [
+    `${report.sessions} sessions (${statuses}), ${report.thoughts.total} thoughts`,
+    `Thoughts per session: avg ${report.thoughts.average}, median ${report.thoughts.median}, p90 ${report.thoughts.p90}, max ${report.thoughts.max}`,
+    `totalThoughts raised in ${percent(report.estimates.raisedRate)} of sessions (avg ${report.estimates.averageRaises} raises, final estimate ${report.estimates.averageGrowth}x the first)`,
+    `Revisions: ${percent(report.revisions.perThought)} of thoughts, in ${percent(report.revisions.sessionRate)} of sessions`,
+    `Branches: ${report.branches.perSession} per session, in ${percent(report.branches.sessionRate)} of sessions`,
+    `needsMoreThoughts: ${percent(report.needsMoreThoughts.perThought)} of thoughts, in ${percent(report.needsMoreThoughts.sessionRate)} of sessions`,
+    ...(report.durationMs ? [`Duration: median ${formatDuration(report.durationMs.median)}, p90 ${formatDuration(report.durationMs.p90)}, max ${formatDuration(report.durationMs.max)}`] : []),
+    `Reached a final thought: ${percent(report.conclusionRate)}`,
+    ...(report.skipped.length > 0 ? [`${report.skipped.length} session(s) could not be read and were skipped`] : []),
+  ].join('\n');
+}
+
+/**
+ * Analytics over stored sessions. Per-session figures are cached locally,
+ * keyed by object key and content version, so only sessions new or rewritten since the last run are downloaded.
+ */
+class SessionStatsCache {
+  private path = join(config.RECALL_DATA_DIR, 'stats-cache.json');
+  private sessions: Record<string, SessionFigures> | null = null;
+
+  private async load(): Promise<Record<string, SessionFigures>> {
+    if (this.sessions) return this.sessions;
+
+    try {
+      const content = await readFile(this.path, 'utf8');
+      if (isEncryptionEnabled() && !isEncryptedContent(content)) {
+        // Written before encryption was configured; rebuild it rather than keep a plaintext copy
+        await unlink(this.path);
+        this.sessions = {};
+      } else {
+        const file = openLocalFile<StatsCacheFile>(content);
+        this.sessions = file.version === CACHE_VERSION ? file.sessions : {};
+      }
+    } catch {
+      this.sessions = {};
+    }
+    return this.sessions;
+  }
+
+  private async save(): Promise<void> {
+    const file: StatsCacheFile = { version: CACHE_VERSION, sessions: this.sessions || {} };
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(`${this.path}.tmp`, sealLocalFile(file), { encoding: 'utf8', mode: 0o600 });
+    await rename(`${this.path}.tmp`, this.path);
+  }
+
+  /**
+   * Compute statistics over every stored session that matches the filter
+   * @returns The report, and how many sessions were downloaded or served from the cache
+   * @throws When stored sessions cannot be listed; the cache is left as it was
+   */
+  public async compute(storage: StorageBackend, filter: StatsFilter = {}): Promise<{ report: SessionStatsReport, cache: { computed: number, cached: number } }> {
+    // List first: a failed listing must not look like an empty bucket and empty the cache
+    const objects = await storage.listAllSessionObjects();
+    const cached = await this.load();
+    const liveKeys = new Set(objects.map(obj => obj.key));
+    let changed = false;
+
+    // Forget sessions that were deleted or archived
+    for (const key of Object.keys(cached)) {
+      if (!liveKeys.has(key)) {
+        delete cached[key];
+        changed = true;
+      }
+    }
+
+    const matching = objects.filter(obj => {
+      const timestamp = obj.metadata?.timestamp;
+      if (filter.createdAfter !== undefined && (timestamp === undefined || timestamp < filter.createdAfter)) return false;
+      if (filter.createdBefore !== undefined && (timestamp === undefined || timestamp > filter.createdBefore)) return false;
+      if (!filter.includeIncomplete && obj.metadata?.status === 'incomplete') return false;
+      return matchesLabels(obj.metadata, filter.labels ?? {});
+    });
+
+    const figures: SessionFigures[] = [];
+    const skipped: string[] = [];
+    let computed = 0;
+    let fromCache = 0;
+
+    for (const obj of matching) {
+      const version = contentVersion(obj);
+      let sessionFigures = cached[obj.key];
+      if (sessionFigures && sessionFigures.version === version) {
+        fromCache++;
+      } else {
+        const session = await storage.getSessionObject(obj.key).catch((error: any) => {
+          logger.error(chalk.yellow(`⚠️ ${error.message}`));
+          return null;
+        });
+        if (!session) {
+          skipped.push(obj.key);
+          continue;
+        }
+
+        sessionFigures = figuresFor(session, obj.size, version);
+        cached[obj.key] = sessionFigures;
+        changed = true;
+        computed++;
+      }
+
+      // Status metadata is missing on old sessions, so check the header's status too
+      if (filter.includeIncomplete || sessionFigures.status !== 'incomplete') {
+        figures.push(sessionFigures);
+      }
+    }
+
+    if (changed) {
+      await this.save().catch((error: any) => {
+        logger.error(chalk.yellow(`⚠️ Could not save stats cache: ${error.message}`));
+      });
+    }
+
+    logger.error(chalk.blue(`📈 Session stats over ${figures.length} sessions (${computed} computed, ${fromCache} cached)`));
+    return { report: aggregate(figures, skipped), cache: { computed, cached: fromCache } };
+  }
+}
+
+// Export a singleton instance
+export const sessionStatsCache = new SessionStatsCache();
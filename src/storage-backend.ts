@@ -0,0 +1,172 @@
+import { SessionStatus, StoredSession } from './session-format.js';
+import { SessionLabels } from './session-labels.js';
+
+// Interface for the thought data
+export interface ThoughtData {
+  thought: string;
+  thoughtNumber: number;
+  totalThoughts: number;
+  isRevision?: boolean;
+  revisesThought?: number;
+  branchFromThought?: number;
+  branchId?: string;
+  needsMoreThoughts?: boolean;
+  nextThoughtNeeded: boolean;
+}
+
+// Session-level information stored alongside the thoughts
+export interface SessionQueryInfo extends SessionLabels {
+  query?: string;
+  result?: string;
+  sessionId?: string;
+  // Key of the stored session this one was resumed from, and its version number
+  resumedFrom?: string;
+  version?: number;
+  // When the session started and ended; derived from thought timestamps if omitted
+  startedAt?: number;
+  endedAt?: number;
+  // Defaults to complete
+  status?: SessionStatus;
+}
+
+// Outcome of storing a session
+export interface StoreSessionResult {
+  txHash?: string;
+  success: boolean;
+  key: string;
+}
+
+// Summary attached to each stored object so sessions can be listed without downloading them
+export interface SessionMetadata {
+  timestamp?: number;
+  thoughtCount?: number;
+  sessionId?: string;
+  // First characters of the query
+  query?: string;
+  branchCount?: number;
+  revisionCount?: number;
+  status?: string;
+  formatVersion?: number;
+  // Encryption scheme of the stored content; absent for plaintext sessions
+  encryption?: string;
+  // Matches the content scrubber replaced; absent when scrubbing did not run
+  redactions?: number;
+  // Current labels; these may differ from the header after a session is relabeled
+  tags?: string[];
+  project?: string;
+  author?: string;
+}
+
+// Interface for the session objects listed from a backend
+export interface SessionObjectInfo {
+  key: string;
+  size: number;
+  metadata?: SessionMetadata;
+}
+
+// Options for listing one page of stored sessions
+export interface SessionListOptions {
+  // Only keys starting with this; defaults to the log prefix
+  keyPrefix?: string;
+  // nextCursor from the previous page
+  cursor?: string;
+  limit?: number;
+  // Creation time bounds, inclusive, in milliseconds since the epoch
+  createdAfter?: number;
+  createdBefore?: number;
+  // Sessions are ordered by key, which follows creation time
+  order?: 'asc' | 'desc';
+  // Only sessions with every one of these tags, and this project and author
+  labels?: SessionLabels;
+}
+
+// One page of stored sessions; nextCursor is absent on the last page
+export interface SessionListPage {
+  objects: SessionObjectInfo[];
+  nextCursor?: string;
+}
+
+// Status common to every backend; backends may add their own fields
+export interface StorageStatus {
+  backend: string;
+  initialized: boolean;
+  logPrefix: string;
+  pendingThoughts: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Where finalized sessions are written and read back from.
+ * Every backend uses the same JSONL layout and key scheme, so sessions can be
+ * moved between backends without conversion.
+ */
+export interface StorageBackend {
+  readonly name: string;
+
+  /**
+   * Prepare the backend for use (create the bucket, directory, ...)
+   */
+  initialize(): Promise<void>;
+
+  isInitialized(): boolean;
+
+  storeSession(thoughts: ThoughtData[], queryInfo?: SessionQueryInfo, options?: { key?: string }): Promise<StoreSessionResult | undefined>;
+
+  /**
+   * Every session under the log prefix
+   * @throws When the listing fails, so callers never mistake an outage for an empty bucket
+   */
+  listAllSessionObjects(): Promise<SessionObjectInfo[]>;
+
+  /**
+   * List one page of sessions, filtered and ordered as requested
+   */
+  listSessionObjects(options?: SessionListOptions): Promise<SessionListPage>;
+
+  /**
+   * Read and parse a stored session, in any format version
+   */
+  getSessionObject(key: string): Promise<StoredSession | null>;
+
+  getObjectContent(key: string): Promise<string | null>;
+
+  /**
+   * Metadata of one stored session, or null when nothing is stored under the key
+   */
+  getSessionMetadata(key: string): Promise<SessionMetadata | null>;
+
+  /**
+   * Change a stored session's metadata without rewriting its content; a null value removes the field
+   * @returns False when nothing is stored under the key
+   */
+  updateSessionMetadata(key: string, changes: Record<string, string | null>): Promise<boolean>;
+
+  /**
+   * Remove a stored session
+   * @returns False when nothing is stored under the key
+   */
+  deleteSessionObject(key: string): Promise<boolean>;
+
+  /**
+   * Move a stored session to a new key, keeping its content and metadata unchanged
+   * @returns False when nothing is stored under fromKey
+   */
+  moveSessionObject(fromKey: string, toKey: string): Promise<boolean>;
+
+  getStatusInfo(): Promise<StorageStatus>;
+
+  /**
+   * Resolve once every write already started has settled, successfully or not
+   */
+  waitForPendingWrites(): Promise<void>;
+
+  /**
+   * Address of the wallet that signs stored sessions, if the backend signs them
+   */
+  getSignerAddress(): string | undefined;
+
+  /**
+   * A link where a human can view the stored object, if the backend has one
+   */
+  getViewUrl(key: string): string | null;
+}
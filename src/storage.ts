@@ -0,0 +1,20 @@
+import { config } from './config.js';
+import { FilesystemStorage } from './filesystem-storage.js';
+import { RecallIntegration } from './recall-integration.js';
+import { StorageBackend } from './storage-backend.js';
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Get the configured storage backend, creating it on first use.
+ * Creation is lazy so the server can start (and think) even when the
+ * Recall backend cannot be constructed, e.g. without a private key.
+ */
+export function getStorageBackend(): StorageBackend {
+  if (!backend) {
+    backend = config.RECALL_STORAGE_BACKEND === 'filesystem'
+      ? new FilesystemStorage(config.RECALL_STORAGE_DIR)
+      : RecallIntegration.getInstance();
+  }
+  return backend;
+}
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import { ThoughtData } from './storage-backend.js';
+import { labelSchema, MAX_TAGS, tagSchema } from './session-labels.js';
+
+// Machine-readable reasons a thought was rejected
+export type ValidationCode =
+  | 'MISSING_FIELD'
+  | 'INVALID_TYPE'
+  | 'OUT_OF_RANGE'
+  | 'EMPTY_VALUE'
+  | 'REVISION_TARGET_REQUIRED'
+  | 'REVISION_FLAG_REQUIRED'
+  | 'REVISION_TARGET_NOT_EARLIER'
+  | 'REVISION_TARGET_NOT_FOUND'
+  | 'BRANCH_ID_REQUIRED'
+  | 'BRANCH_ORIGIN_REQUIRED'
+  | 'BRANCH_ORIGIN_NOT_EARLIER'
+  | 'BRANCH_ORIGIN_NOT_FOUND'
+  | 'BRANCH_ORIGIN_CONFLICT'
+  | 'DUPLICATE_THOUGHT_NUMBER';
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  field?: string;
+  message: string;
+  // What to change so the thought is accepted
+  hint: string;
+}
+
+/**
+ * A thought that failed validation, carrying every issue found
+ */
+export class ThoughtValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(issues.map(issue => issue.message).join('; '));
+    this.name = 'ThoughtValidationError';
+  }
+}
+
+// Clients often send null for optional fields they are not using
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform(value => value ?? undefined);
+
+const thoughtSchema = z.object({
+  thought: z.string().refine(value => value.trim().length > 0, { message: 'must not be empty' }),
+  thoughtNumber: z.number().int().min(1),
+  totalThoughts: z.number().int().min(1),
+  nextThoughtNeeded: z.boolean(),
+  isRevision: optional(z.boolean()),
+  revisesThought: optional(z.number().int().min(1)),
+  branchFromThought: optional(z.number().int().min(1)),
+  branchId: optional(z.string().refine(value => value.trim().length > 0, { message: 'must not be empty' })),
+  needsMoreThoughts: optional(z.boolean()),
+  sessionId: optional(z.string().refine(value => value.trim().length > 0, { message: 'must not be empty' })),
+  tags: optional(z.array(tagSchema).max(MAX_TAGS)),
+  project: optional(labelSchema),
+  author: optional(labelSchema),
+});
+
+// Fields that describe the session rather than the thought
+const SESSION_FIELDS = new Set(['sessionId', 'tags', 'project', 'author']);
+
+// Field guidance used in hints for type and range errors
+const FIELD_HINTS: Record<string, string> = {
+  thought: 'Set thought to the text of this thinking step.',
+  thoughtNumber: 'Set thoughtNumber to a whole number starting at 1.',
+  totalThoughts: 'Set totalThoughts to your current estimate, a whole number of at least 1.',
+  nextThoughtNeeded: 'Set nextThoughtNeeded to true, or false on the final thought.',
+  isRevision: 'Set isRevision to true or false, or omit it.',
+  revisesThought: 'Set revisesThought to the number of an earlier thought, or omit it.',
+  branchFromThought: 'Set branchFromThought to the number of an earlier thought, or omit it.',
+  branchId: 'Set branchId to a short name for the branch, or omit it.',
+  needsMoreThoughts: 'Set needsMoreThoughts to true or false, or omit it.',
+  sessionId: 'Set sessionId to a non-empty identifier, or omit it to use the default session.',
+  tags: `Set tags to a list of up to ${MAX_TAGS} short labels without commas, or omit it.`,
+  project: 'Set project to the name of the project this session belongs to, or omit it.',
+  author: 'Set author to who the session is for or by, or omit it.',
+};
+
+/**
+ * Convert a zod issue into a validation issue with a code and hint
+ */
+function fromZodIssue(issue: z.ZodIssue): ValidationIssue {
+  const field = issue.path.join('.') || undefined;
+  // Issues inside a list (tags.0) use the hint for the list
+  const hint = (field && FIELD_HINTS[String(issue.path[0])]) || 'Check the sequentialthinking input schema.';
+
+  if (issue.code === 'invalid_type' && issue.received === 'undefined') {
+    return { code: 'MISSING_FIELD', field, message: `${field} is required`, hint };
+  }
+  if (issue.code === 'invalid_type') {
+    return { code: 'INVALID_TYPE', field, message: `${field} must be ${issue.expected === 'integer' ? 'an integer' : `a ${issue.expected}`}, got ${issue.received}`, hint };
+  }
+  if (issue.code === 'too_small' || issue.code === 'too_big' || issue.code === 'not_multiple_of') {
+    return { code: 'OUT_OF_RANGE', field, message: `${field}: ${issue.message}`, hint };
+  }
+  if (issue.code === 'custom') {
+    return { code: 'EMPTY_VALUE', field, message: `${field} ${issue.message}`, hint };
+  }
+  return { code: 'INVALID_TYPE', field, message: `${field}: ${issue.message}`, hint };
+}
+
+/**
+ * Rules between fields of a single thought
+ */
+function crossFieldIssues(data: ThoughtData): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (data.isRevision && data.revisesThought === undefined) {
+    issues.push({
+      code: 'REVISION_TARGET_REQUIRED',
+      field: 'revisesThought',
+      message: 'isRevision is true but revisesThought is missing',
+      hint: 'Set revisesThought to the number of the thought being revised, or drop isRevision.',
+    });
+  }
+  if (!data.isRevision && data.revisesThought !== undefined) {
+    issues.push({
+      code: 'REVISION_FLAG_REQUIRED',
+      field: 'isRevision',
+      message: 'revisesThought is set but isRevision is not true',
+      hint: 'Set isRevision to true when revising a thought, or drop revisesThought.',
+    });
+  }
+  if (data.revisesThought !== undefined && data.revisesThought >= data.thoughtNumber) {
+    issues.push({
+      code: 'REVISION_TARGET_NOT_EARLIER',
+      field: 'revisesThought',
+      message: `revisesThought (${data.revisesThought}) must be earlier than thoughtNumber (${data.thoughtNumber})`,
+      hint: 'A revision gets its own new thoughtNumber; point revisesThought at the earlier thought it replaces.',
+    });
+  }
+  if (data.branchFromThought !== undefined && !data.branchId) {
+    issues.push({
+      code: 'BRANCH_ID_REQUIRED',
+      field: 'branchId',
+      message: 'branchFromThought is set but branchId is missing',
+      hint: 'Give the branch a short descriptive branchId, e.g. "alternative-cache".',
+    });
+  }
+  if (data.branchFromThought !== undefined && data.branchFromThought >= data.thoughtNumber) {
+    issues.push({
+      code: 'BRANCH_ORIGIN_NOT_EARLIER',
+      field: 'branchFromThought',
+      message: `branchFromThought (${data.branchFromThought}) must be earlier than thoughtNumber (${data.thoughtNumber})`,
+      hint: 'Number the first thought of a branch after the thought it branches from.',
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Rules that depend on the thoughts already in the session
+ */
+function sessionIssues(data: ThoughtData, history: ThoughtData[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const numbers = new Set(history.map(thought => thought.thoughtNumber));
+  const highest = history.length > 0 ? Math.max(...numbers) : 0;
+
+  if (data.revisesThought !== undefined && data.revisesThought < data.thoughtNumber && !numbers.has(data.revisesThought)) {
+    issues.push({
+      code: 'REVISION_TARGET_NOT_FOUND',
+      field: 'revisesThought',
+      message: `revisesThought refers to thought ${data.revisesThought}, which is not in this session`,
+      hint: history.length > 0
+        ? `Revise one of the existing thoughts (numbers up to ${highest}).`
+        : 'There are no earlier thoughts in this session yet; check the sessionId.',
+    });
+  }
+
+  if (data.branchFromThought !== undefined && data.branchFromThought < data.thoughtNumber && !numbers.has(data.branchFromThought)) {
+    issues.push({
+      code: 'BRANCH_ORIGIN_NOT_FOUND',
+      field: 'branchFromThought',
+      message: `branchFromThought refers to thought ${data.branchFromThought}, which is not in this session`,
+      hint: history.length > 0
+        ? `Branch from one of the existing thoughts (numbers up to ${highest}).`
+        : 'There are no earlier thoughts in this session yet; check the sessionId.',
+    });
+  }
+
+  if (data.branchId) {
+    const existingBranch = history.find(thought => thought.branchId === data.branchId && thought.branchFromThought !== undefined);
+    if (existingBranch && data.branchFromThought !== undefined && existingBranch.branchFromThought !== data.branchFromThought) {
+      issues.push({
+        code: 'BRANCH_ORIGIN_CONFLICT',
+        field: 'branchFromThought',
+        message: `Branch "${data.branchId}" already starts from thought ${existingBranch.branchFromThought}, not ${data.branchFromThought}`,
+        hint: `To continue the branch, use branchFromThought ${existingBranch.branchFromThought} or omit it; to start a new branch, use a different branchId.`,
+      });
+    }
+    if (!existingBranch && data.branchFromThought === undefined) {
+      issues.push({
+        code: 'BRANCH_ORIGIN_REQUIRED',
+        field: 'branchFromThought',
+        message: `Branch "${data.branchId}" does not exist yet and branchFromThought is missing`,
+        hint: 'Set branchFromThought on the first thought of a new branch.',
+      });
+    }
+  }
+
+  // Thought numbers are unique within a line (the main line or one branch)
+  const duplicate = history.find(thought => thought.thoughtNumber === data.thoughtNumber && (thought.branchId || undefined) === data.branchId);
+  if (duplicate) {
+    issues.push({
+      code: 'DUPLICATE_THOUGHT_NUMBER',
+      field: 'thoughtNumber',
+      message: `Thought ${data.thoughtNumber} already exists ${data.branchId ? `on branch "${data.branchId}"` : 'on the main line'}`,
+      hint: `Continue with thoughtNumber ${highest + 1}. To change an earlier thought, send it as a revision (isRevision, revisesThought); to start a new problem, use a new sessionId.`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Validate one thought against the input schema, the rules between its fields,
+ * and the thoughts already recorded in its session
+ * @throws ThoughtValidationError listing every issue found
+ */
+export function validateThought(input: unknown, history: ThoughtData[] = []): ThoughtData {
+  const parsed = thoughtSchema.safeParse(input ?? {});
+  if (!parsed.success) {
+    throw new ThoughtValidationError(parsed.error.issues.map(fromZodIssue));
+  }
+
+  // Session fields route and label the thought; they are not part of the thought itself
+  const thought = Object.fromEntries(
+    Object.entries(parsed.data).filter(([field, value]) => value !== undefined && !SESSION_FIELDS.has(field))
+  ) as unknown as ThoughtData;
+
+  const issues = [...crossFieldIssues(thought), ...sessionIssues(thought, history)];
+  if (issues.length > 0) {
+    throw new ThoughtValidationError(issues);
+  }
+
+  return thought;
+}